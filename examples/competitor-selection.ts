@@ -24,16 +24,6 @@ async function searchProducts(keywords: string[]): Promise<any[]> {
   ];
 }
 
-async function filterProducts(products: any[], filters: any): Promise<any[]> {
-  return products.filter(p => {
-    if (filters.minPrice && p.price < filters.minPrice) return false;
-    if (filters.maxPrice && p.price > filters.maxPrice) return false;
-    if (filters.minRating && p.rating < filters.minRating) return false;
-    if (filters.minReviews && p.reviews < filters.minReviews) return false;
-    return true;
-  });
-}
-
 async function rankProducts(products: any[]): Promise<any[]> {
   // Simulate LLM-based ranking
   await new Promise(resolve => setTimeout(resolve, 150));
@@ -124,37 +114,41 @@ async function competitorSelectionPipeline(sellerProduct: any) {
       minReviews: 1000
     };
 
-    const filtered = await filterProducts(searchResults, filters);
-    const filteredIds = new Set(filtered.map(p => p.id));
-    const rejected = searchResults.filter(p => !filteredIds.has(p.id));
-
-    // Record filter details
-    await xray.recordFilter(step3.id, {
-      filterType: 'price-range',
-      config: { min: filters.minPrice, max: filters.maxPrice },
-      candidatesAffected: searchResults.length,
-      candidatesRejected: rejected.filter(p => p.price < filters.minPrice || p.price > filters.maxPrice).length
-    });
-
-    await xray.recordFilter(step3.id, {
-      filterType: 'rating-threshold',
-      config: { min: filters.minRating },
-      candidatesAffected: searchResults.length,
-      candidatesRejected: rejected.filter(p => p.rating < filters.minRating).length
-    });
-
-    // Record candidates (accepted and rejected)
-    await xray.recordCandidates(
+    // Apply rules in order; each rejection is attributed to the first rule it fails
+    // and one filter per rule is recorded with its exact impact
+    const passed = await xray.filter(
       step3.id,
       searchResults.map(p => ({
         candidateId: p.id,
         data: p,
         score: p.rating
       })),
-      filtered.map(p => p.id) // Only filtered products are accepted
+      [
+        {
+          filterType: 'price-range',
+          config: { min: filters.minPrice, max: filters.maxPrice },
+          predicate: (c, config) => c.data.price >= config.min && c.data.price <= config.max,
+          reason: (c, config) => `Price ${c.data.price} outside ${config.min}-${config.max}`
+        },
+        {
+          filterType: 'rating-threshold',
+          config: { min: filters.minRating },
+          predicate: (c, config) => c.data.rating >= config.min,
+          reason: (c, config) => `Rating ${c.data.rating} below ${config.min}`
+        },
+        {
+          filterType: 'review-count-threshold',
+          config: { min: filters.minReviews },
+          predicate: (c, config) => c.data.reviews >= config.min,
+          reason: (c, config) => `${c.data.reviews} reviews below ${config.min}`
+        }
+      ]
     );
 
-    const filteringMessage = `Filtered ${searchResults.length} candidates down to ${filtered.length} (eliminated ${rejected.length})`;
+    const filtered = passed.map(c => c.data);
+    const rejectedCount = searchResults.length - filtered.length;
+
+    const filteringMessage = `Filtered ${searchResults.length} candidates down to ${filtered.length} (eliminated ${rejectedCount})`;
     console.log(`[X-Ray] ${filteringMessage}`);
     await xray.completeStep(step3.id, { count: filtered.length }, undefined, filteringMessage);
 
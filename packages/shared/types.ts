@@ -7,21 +7,25 @@ export interface Run {
   id: string;
   pipelineId: string;
   pipelineVersion?: string;
-  status: 'running' | 'completed' | 'failed';
+  status: 'running' | 'completed' | 'failed' | 'abandoned';
   startedAt: Date;
   completedAt?: Date;
   metadata: Record<string, any>;
   input: any;
   output?: any;
   error?: string;
+  sampleRate?: number;   // Probability trace sampling kept this run; weight counts by 1 / sampleRate
+  lastHeartbeatAt?: Date;  // Last SDK heartbeat; counts as activity for stuck-run detection
+  projectId?: string;    // Owning project; set by the API from the caller's API key
 }
 
 export interface Step {
   id: string;
   runId: string;
+  parentStepId?: string;
   stepType: string;
   stepIndex: number;
-  status: 'running' | 'completed' | 'failed';
+  status: 'running' | 'completed' | 'failed' | 'abandoned';
   startedAt: Date;
   completedAt?: Date;
   input: any;
@@ -34,6 +38,45 @@ export interface Step {
   error?: string;
   metadata: Record<string, any>;
   captureAllCandidates?: boolean;
+  candidateSummary?: CandidateSummary;
+}
+
+/**
+ * Score distribution for one group of candidates
+ * histogram buckets span [lower, upper); the last bucket includes its upper bound
+ */
+export interface ScoreStats {
+  count: number;
+  min?: number;
+  max?: number;
+  mean?: number;
+  percentiles: Record<string, number>;
+  histogram: { lower: number; upper: number; count: number }[];
+}
+
+/**
+ * Aggregate statistics over every candidate a step saw,
+ * including the ones not captured individually
+ */
+export interface CandidateSummary {
+  total: number;
+  accepted: number;
+  rejected: number;
+  scores: {
+    accepted: ScoreStats;
+    rejected: ScoreStats;
+  };
+  rejectionReasons: Record<string, number>;
+  fields: Record<string, Record<string, { accepted: number; rejected: number }>>;
+}
+
+/**
+ * A step with its sub-steps, as returned by the nested run view
+ * concurrentWith lists sibling steps whose execution overlapped this one
+ */
+export interface StepTreeNode extends Step {
+  children: StepTreeNode[];
+  concurrentWith: string[];
 }
 
 export interface Candidate {
@@ -43,10 +86,61 @@ export interface Candidate {
   status: 'accepted' | 'rejected' | 'pending';
   score?: number;
   reason?: string;
+  filterId?: string;
   data: Record<string, any>;
   metadata: Record<string, any>;
 }
 
+/**
+ * What happened to one candidate at one step of a run
+ * captured is false when the step did not record the candidate
+ * (it never reached the step, or sampling left it out)
+ */
+export interface CandidateJourneyStep {
+  stepId: string;
+  stepType: string;
+  stepIndex: number;
+  parentStepId?: string;
+  captured: boolean;
+  status?: 'accepted' | 'rejected' | 'pending';
+  score?: number;
+  rank?: number;
+  reason?: string;
+  filter?: Pick<Filter, 'id' | 'filterType' | 'config'>;
+}
+
+/**
+ * A candidate's path through every step of a run, in step order
+ */
+export interface CandidateJourney {
+  runId: string;
+  candidateId: string;
+  steps: CandidateJourneyStep[];
+  firstDroppedAt: CandidateJourneyStep | null;
+}
+
+/**
+ * Structured answer to "why wasn't this candidate selected?"
+ * - selected: it was the top candidate at the last step that recorded candidates
+ * - rejected: a step rejected it (step, reason and filter say where and why)
+ * - outranked: it survived to the end but the winner scored higher
+ * - missing: it stopped being recorded (hiddenBySampling says whether sampling may explain that)
+ */
+export interface WhyNotExplanation {
+  runId: string;
+  candidateId: string;
+  verdict: 'selected' | 'rejected' | 'outranked' | 'missing';
+  step?: Pick<Step, 'id' | 'stepType' | 'stepIndex'>;
+  reason?: string;
+  filter?: Pick<Filter, 'id' | 'filterType' | 'config'>;
+  stepFilters?: Pick<Filter, 'id' | 'filterType' | 'config'>[]; // When the rejection was not attributed to a filter
+  winner?: { candidateId: string; score?: number };
+  scoreGap?: number;              // Winner's score minus this candidate's, at the decisive step
+  captured: boolean;              // Recorded at any step at all
+  hiddenBySampling: boolean;      // A step that may have seen it only stored a sample
+  summary: string;
+}
+
 export interface Filter {
   id: string;
   stepId: string;
@@ -57,6 +151,178 @@ export interface Filter {
   metadata: Record<string, any>;
 }
 
+export interface LLMMessage {
+  role: string;          // 'system' | 'user' | 'assistant' | 'tool', or a provider's own roles
+  content: any;          // Text, or structured content parts
+  name?: string;
+}
+
+/**
+ * One model call made by a step
+ */
+export interface LLMCall {
+  id: string;
+  stepId: string;
+  provider?: string;                   // e.g. 'openai', 'anthropic'
+  model: string;
+  messages: LLMMessage[];              // Prompt, in order
+  completion?: string;
+  parameters?: Record<string, any>;    // Other request parameters (max_tokens, top_p, ...)
+  temperature?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  latencyMs?: number;
+  costUsd?: number;
+  finishReason?: string;               // e.g. 'stop', 'length', 'tool_calls'
+  error?: string;
+  startedAt: Date;
+  metadata: Record<string, any>;
+}
+
+/**
+ * A tenant: runs belong to exactly one project and are only visible to its API keys
+ */
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+/**
+ * What an API key may do in its project:
+ * reader - query runs; writer - ingest runs; admin - everything, plus deletion and key management
+ */
+export type ApiKeyRole = 'reader' | 'writer' | 'admin';
+
+/**
+ * An API key of a project (a caller identity); only a hash of the key itself is stored
+ */
+export interface ApiKey {
+  id: string;
+  projectId: string;
+  name: string;
+  roles: ApiKeyRole[];
+  keyPrefix: string;     // First characters of the key, to tell keys apart
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * A single ingestion operation, as sent in batches to POST /api/events
+ * (and spooled to disk by the SDK in the same shape)
+ * Run, step, candidate, filter and LLM call IDs are client-generated and kept by the API.
+ */
+export type IngestEvent =
+  | { type: 'createRun'; data: Omit<Run, 'status'> }
+  | { type: 'updateRun'; runId: string; data: Partial<Run> }
+  | { type: 'createStep'; data: Omit<Step, 'status'> }
+  | { type: 'updateStep'; stepId: string; data: Partial<Step> }
+  | { type: 'createCandidates'; stepId: string; data: Omit<Candidate, 'stepId'>[] }
+  | { type: 'createFilter'; stepId: string; data: Omit<Filter, 'stepId'> }
+  | { type: 'createLLMCall'; stepId: string; data: Omit<LLMCall, 'stepId'> };
+
+/**
+ * Outcome of one event in a batch; status is the HTTP status the single-event
+ * endpoint would have returned
+ */
+export interface IngestEventResult {
+  index: number;
+  status: number;
+  error?: string;
+  code?: ApiErrorCode;
+  details?: ApiErrorDetail[];
+  current?: Record<string, unknown>;   // State a rejected change conflicted with (409)
+}
+
+/**
+ * Error codes of the API, one per HTTP status it returns for failed requests
+ * - invalid_request (400): the request itself is unreadable (malformed JSON, bad query parameter)
+ * - validation_failed (422): the body was read but its fields break the resource's schema
+ */
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'payload_too_large'
+  | 'unsupported_media_type'
+  | 'validation_failed'
+  | 'internal_error';
+
+/**
+ * One problem with a request, by field path (e.g. steps[0].candidates[3].status)
+ */
+export interface ApiErrorDetail {
+  path: string;
+  message: string;
+}
+
+/**
+ * Body of every error response
+ */
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  details?: ApiErrorDetail[];
+  current?: Record<string, unknown>;   // Lifecycle conflicts: the record's state (status, startedAt, completedAt, ...)
+}
+
+/**
+ * A complete run for single-request ingestion (POST /api/runs/bulk)
+ * IDs are optional and generated when missing; stepIndex defaults to depth-first order.
+ * Candidates may reference a filter of the same step by its (client-supplied) id.
+ */
+export interface BulkRunPayload extends Partial<Omit<Run, 'pipelineId'>> {
+  pipelineId: string;
+  steps?: BulkStepPayload[];
+}
+
+export interface BulkStepPayload extends Partial<Omit<Step, 'runId' | 'parentStepId' | 'stepType'>> {
+  stepType: string;
+  candidates?: (Partial<Omit<Candidate, 'stepId' | 'candidateId'>> & { candidateId: string })[];
+  filters?: (Partial<Omit<Filter, 'stepId' | 'filterType'>> & { filterType: string })[];
+  children?: BulkStepPayload[];   // Sub-steps (stored with parentStepId)
+}
+
+/**
+ * IDs of everything stored by a bulk ingestion, mirroring the payload's shape and order
+ */
+export interface BulkRunResult {
+  id: string;
+  steps: BulkStepResult[];
+}
+
+export interface BulkStepResult {
+  id: string;
+  stepIndex: number;
+  candidateIds: string[];
+  filterIds: string[];
+  children: BulkStepResult[];
+}
+
+/**
+ * OpenTelemetry span attributes for runs and steps
+ * Set by the SDK's OTel bridge and read by OTLP ingestion (POST /v1/traces):
+ * a span with PIPELINE_ID is a run, a span with STEP_TYPE is a step
+ */
+export const XRaySpanAttributes = {
+  RUN_ID: 'xray.run.id',
+  PIPELINE_ID: 'xray.pipeline.id',
+  PIPELINE_VERSION: 'xray.pipeline.version',
+  RUN_STATUS: 'xray.run.status',
+  STEP_ID: 'xray.step.id',
+  STEP_TYPE: 'xray.step.type',
+  STEP_INDEX: 'xray.step.index',
+  PARENT_STEP_ID: 'xray.step.parent_id',
+  STEP_STATUS: 'xray.step.status',
+  INPUT_COUNT: 'xray.step.input_count',
+  OUTPUT_COUNT: 'xray.step.output_count',
+  DURATION_MS: 'xray.step.duration_ms'
+} as const;
+
 /**
  * Common step types (helpers, not enforced)
  */
@@ -80,17 +346,33 @@ export interface RunOptions {
 
 export interface StepOptions {
   stepType: string;
+  parentStepId?: string;
   input?: any;
   config?: Record<string, any>;
   reasoning?: string;
   captureAllCandidates?: boolean;
+  sampling?: SamplingStrategy;      // Overrides XRayConfig.sampling for this step
+  samplingSeed?: number;            // Fixed seed to reproduce a previous sample
+  summaryFields?: string[];         // data fields to count in the candidate summary
   metadata?: Record<string, any>;
 }
 
+/**
+ * Chooses which rejected candidates to keep when a step exceeds full capture
+ * Must be deterministic for a given seed so the sample is reproducible
+ */
+export interface SamplingStrategy {
+  name: string;
+  sample(candidates: CandidateOptions[], limit: number, seed: number): CandidateOptions[];
+}
+
 export interface CandidateOptions {
   candidateId: string;
   data: Record<string, any>;
   score?: number;
+  status?: 'accepted' | 'rejected'; // Overrides membership in acceptedIds
+  reason?: string;                  // Why the candidate was rejected (or accepted)
+  filterId?: string;                // Filter (from recordFilter) that rejected it
   metadata?: Record<string, any>;
 }
 
@@ -102,3 +384,21 @@ export interface FilterOptions {
   metadata?: Record<string, any>;
 }
 
+export interface LLMCallOptions {
+  provider?: string;
+  model: string;
+  messages: LLMMessage[];
+  completion?: string;
+  parameters?: Record<string, any>;
+  temperature?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;             // Defaults to promptTokens + completionTokens
+  latencyMs?: number;
+  costUsd?: number;
+  finishReason?: string;
+  error?: string;
+  startedAt?: Date;                 // Defaults to now minus latencyMs
+  metadata?: Record<string, any>;
+}
+
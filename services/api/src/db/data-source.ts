@@ -18,6 +18,9 @@ import { RunEntity } from '../entities/Run.entity';
 import { Step } from '../entities/Step.entity';
 import { Candidate } from '../entities/Candidate.entity';
 import { Filter } from '../entities/Filter.entity';
+import { LLMCall } from '../entities/LLMCall.entity';
+import { ProjectEntity } from '../entities/Project.entity';
+import { ApiKey } from '../entities/ApiKey.entity';
 
 dotenv.config();
 
@@ -28,7 +31,7 @@ dotenv.config();
 export const AppDataSource = new DataSource({
   type: 'postgres',
   url: process.env.DATABASE_URL,
-  entities: [RunEntity, Step, Candidate, Filter],
+  entities: [RunEntity, Step, Candidate, Filter, LLMCall, ProjectEntity, ApiKey],
   synchronize: false, // Use migrations instead of auto-sync (safer for production)
   logging: process.env.NODE_ENV === 'development', // Log queries in development
   migrations: ['src/db/migrations/*.ts', 'dist/db/migrations/*.js'],
@@ -0,0 +1,79 @@
+/**
+ * Event File Import Script
+ * Imports newline-delimited JSON event files (SDK file transport output or a
+ * spool's events.jsonl) straight into the database
+ *
+ * Usage: npm run import -- --project <projectId> <file.jsonl> [more files...]
+ */
+
+import 'reflect-metadata';
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { AppDataSource } from './data-source';
+import { RunsRepository } from '../repositories/runs';
+import { StepsRepository } from '../repositories/steps';
+import { CandidatesRepository } from '../repositories/candidates';
+import { FiltersRepository } from '../repositories/filters';
+import { LLMCallsRepository } from '../repositories/llmCalls';
+import { ProjectsRepository } from '../repositories/projects';
+import { EventIngestService } from '../services/events';
+import { lifecycleOptionsFromEnv } from '../services/lifecycle';
+import { EventImportService } from '../services/import';
+import { payloadLimitsFromEnv } from '../middleware/payloadLimits';
+
+async function importFiles(args: string[]) {
+  const projectFlag = args.indexOf('--project');
+  const projectId = projectFlag >= 0 ? args[projectFlag + 1] : undefined;
+  const files = args.filter((_, i) => projectFlag < 0 || (i !== projectFlag && i !== projectFlag + 1));
+
+  if (!projectId || files.length === 0) {
+    console.error('Usage: npm run import -- --project <projectId> <file.jsonl> [more files...]');
+    process.exit(1);
+  }
+
+  let failed = 0;
+  try {
+    await AppDataSource.initialize();
+    console.log('✅ Database connection initialized');
+
+    if (!(await new ProjectsRepository().findById(projectId))) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+
+    const importService = new EventImportService(new EventIngestService(
+      new RunsRepository(),
+      new StepsRepository(),
+      new CandidatesRepository(),
+      new FiltersRepository(),
+      new LLMCallsRepository(),
+      lifecycleOptionsFromEnv()
+    ), payloadLimitsFromEnv());
+
+    for (const file of files) {
+      const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+      const result = await importService.import(lines, projectId);
+      failed += result.failed;
+
+      console.log(`${result.failed === 0 ? '✅' : '⚠️ '} ${file}: ${result.applied}/${result.events} event(s) applied`);
+      result.errors.forEach(error => {
+        console.log(`   - line ${error.line}${error.type ? ` (${error.type})` : ''}: ${error.status} ${error.error}`);
+      });
+      if (result.failed > result.errors.length) {
+        console.log(`   ... and ${result.failed - result.errors.length} more`);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Import failed:', error);
+    process.exit(1);
+  } finally {
+    if (AppDataSource.isInitialized) {
+      await AppDataSource.destroy();
+    }
+  }
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+importFiles(process.argv.slice(2));
@@ -0,0 +1,49 @@
+/**
+ * Add Parent Step Migration
+ * 
+ * Adds steps.parent_step_id so steps can form a hierarchy:
+ * - sub-steps (e.g. an LLM evaluation inside a ranking step)
+ * - fan-out steps sharing a parent (e.g. parallel marketplace searches)
+ * 
+ * Migration timestamp: 1736352000000 (January 8, 2025)
+ */
+
+import { MigrationInterface, QueryRunner, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+export class AddParentStepId1736352000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'steps',
+      new TableColumn({
+        name: 'parent_step_id',
+        type: 'text',
+        isNullable: true,
+      })
+    );
+
+    await queryRunner.createForeignKey(
+      'steps',
+      new TableForeignKey({
+        name: 'fk_steps_parent_step_id',
+        columnNames: ['parent_step_id'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'steps',
+        onDelete: 'CASCADE',
+      })
+    );
+
+    await queryRunner.createIndex(
+      'steps',
+      new TableIndex({
+        name: 'idx_steps_parent_step_id',
+        columnNames: ['parent_step_id'],
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('steps', 'idx_steps_parent_step_id');
+    await queryRunner.dropForeignKey('steps', 'fk_steps_parent_step_id');
+    await queryRunner.dropColumn('steps', 'parent_step_id');
+  }
+}
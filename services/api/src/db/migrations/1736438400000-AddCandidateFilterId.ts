@@ -0,0 +1,48 @@
+/**
+ * Add Candidate Filter Attribution Migration
+ * 
+ * Adds candidates.filter_id so a rejected candidate can point at the
+ * filter that rejected it. Deleting the filter clears the attribution.
+ * 
+ * Migration timestamp: 1736438400000 (January 9, 2025)
+ */
+
+import { MigrationInterface, QueryRunner, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+export class AddCandidateFilterId1736438400000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'candidates',
+      new TableColumn({
+        name: 'filter_id',
+        type: 'text',
+        isNullable: true,
+      })
+    );
+
+    await queryRunner.createForeignKey(
+      'candidates',
+      new TableForeignKey({
+        name: 'fk_candidates_filter_id',
+        columnNames: ['filter_id'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'filters',
+        onDelete: 'SET NULL',
+      })
+    );
+
+    await queryRunner.createIndex(
+      'candidates',
+      new TableIndex({
+        name: 'idx_candidates_filter_id',
+        columnNames: ['step_id', 'filter_id'],
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('candidates', 'idx_candidates_filter_id');
+    await queryRunner.dropForeignKey('candidates', 'fk_candidates_filter_id');
+    await queryRunner.dropColumn('candidates', 'filter_id');
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Add Step Candidate Summary Migration
+ * 
+ * Adds steps.candidate_summary, aggregate statistics computed by the SDK
+ * over the full candidate set (score distributions, counts per rejection
+ * reason and per data field) so sampled steps still describe every candidate.
+ * 
+ * Migration timestamp: 1736524800000 (January 10, 2025)
+ */
+
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddStepCandidateSummary1736524800000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'steps',
+      new TableColumn({
+        name: 'candidate_summary',
+        type: 'jsonb',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('steps', 'candidate_summary');
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Add Run Sample Rate Migration
+ * 
+ * Adds runs.sample_rate, the probability with which the SDK's trace sampling
+ * kept the run (1 for runs kept by a tail rule such as an error). Analytics
+ * weight each stored run by 1 / sample_rate; NULL means the run was not sampled.
+ * 
+ * Migration timestamp: 1736611200000 (January 11, 2025)
+ */
+
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddRunSampleRate1736611200000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'runs',
+      new TableColumn({
+        name: 'sample_rate',
+        type: 'real',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('runs', 'sample_rate');
+  }
+}
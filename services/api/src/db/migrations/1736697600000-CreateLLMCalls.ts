@@ -0,0 +1,147 @@
+/**
+ * Create LLM Calls Migration
+ * 
+ * Creates the llm_calls table: one row per model call made by a step, with
+ * model, provider, prompt messages, completion, parameters, token counts,
+ * latency, cost and finish reason. A trigram index on completion keeps
+ * cross-run substring searches ("completions that mention 'laptop'") fast.
+ * 
+ * Migration timestamp: 1736697600000 (January 12, 2025)
+ */
+
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from 'typeorm';
+
+export class CreateLLMCalls1736697600000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'llm_calls',
+        columns: [
+          {
+            name: 'id',
+            type: 'text',
+            isPrimary: true,
+          },
+          {
+            name: 'step_id',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'provider',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'model',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'messages',
+            type: 'jsonb',
+            isNullable: false,
+          },
+          {
+            name: 'completion',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'parameters',
+            type: 'jsonb',
+            isNullable: true,
+          },
+          {
+            name: 'temperature',
+            type: 'real',
+            isNullable: true,
+          },
+          {
+            name: 'prompt_tokens',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'completion_tokens',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'total_tokens',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'latency_ms',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'cost_usd',
+            type: 'double precision',
+            isNullable: true,
+          },
+          {
+            name: 'finish_reason',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'error',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'started_at',
+            type: 'timestamp',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'metadata',
+            type: 'jsonb',
+            default: "'{}'",
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createForeignKey(
+      'llm_calls',
+      new TableForeignKey({
+        name: 'fk_llm_calls_step_id',
+        columnNames: ['step_id'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'steps',
+        onDelete: 'CASCADE',
+      })
+    );
+
+    await queryRunner.createIndex(
+      'llm_calls',
+      new TableIndex({
+        name: 'idx_llm_calls_step_id',
+        columnNames: ['step_id'],
+      })
+    );
+
+    await queryRunner.createIndex(
+      'llm_calls',
+      new TableIndex({
+        name: 'idx_llm_calls_model',
+        columnNames: ['model', 'started_at'],
+      })
+    );
+
+    await queryRunner.query('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+    await queryRunner.query(
+      'CREATE INDEX idx_llm_calls_completion_trgm ON llm_calls USING gin (completion gin_trgm_ops)'
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('llm_calls', true, true, true);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Create Projects and API Keys Migration
+ * 
+ * Creates the projects and api_keys tables and adds runs.project_id, so every
+ * run belongs to one project and is only visible to that project's keys.
+ * Keys are stored as SHA-256 hashes. Runs recorded before this migration are
+ * moved into a 'default' project.
+ * 
+ * Migration timestamp: 1736784000000 (January 13, 2025)
+ */
+
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+export class CreateProjectsAndApiKeys1736784000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'projects',
+        columns: [
+          {
+            name: 'id',
+            type: 'text',
+            isPrimary: true,
+          },
+          {
+            name: 'name',
+            type: 'text',
+            isNullable: false,
+            isUnique: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'api_keys',
+        columns: [
+          {
+            name: 'id',
+            type: 'text',
+            isPrimary: true,
+          },
+          {
+            name: 'project_id',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'name',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'key_prefix',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'key_hash',
+            type: 'text',
+            isNullable: false,
+            isUnique: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'last_used_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'revoked_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createForeignKey(
+      'api_keys',
+      new TableForeignKey({
+        name: 'fk_api_keys_project_id',
+        columnNames: ['project_id'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'projects',
+        onDelete: 'CASCADE',
+      })
+    );
+
+    await queryRunner.createIndex(
+      'api_keys',
+      new TableIndex({
+        name: 'idx_api_keys_project_id',
+        columnNames: ['project_id'],
+      })
+    );
+
+    // Existing runs predate projects; keep them in a project of their own
+    await queryRunner.query(`INSERT INTO projects (id, name) VALUES ('default', 'default')`);
+
+    await queryRunner.addColumn(
+      'runs',
+      new TableColumn({
+        name: 'project_id',
+        type: 'text',
+        isNullable: true,
+      })
+    );
+    await queryRunner.query(`UPDATE runs SET project_id = 'default'`);
+    await queryRunner.query('ALTER TABLE runs ALTER COLUMN project_id SET NOT NULL');
+
+    await queryRunner.createForeignKey(
+      'runs',
+      new TableForeignKey({
+        name: 'fk_runs_project_id',
+        columnNames: ['project_id'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'projects',
+      })
+    );
+
+    await queryRunner.createIndex(
+      'runs',
+      new TableIndex({
+        name: 'idx_runs_project_started_at',
+        columnNames: ['project_id', 'started_at'],
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('runs', 'idx_runs_project_started_at');
+    await queryRunner.dropForeignKey('runs', 'fk_runs_project_id');
+    await queryRunner.dropColumn('runs', 'project_id');
+    await queryRunner.dropTable('api_keys', true, true, true);
+    await queryRunner.dropTable('projects', true, true, true);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Add API Key Roles Migration
+ * 
+ * Adds api_keys.roles, the roles (reader, writer, admin) a key grants within
+ * its project. Keys issued before roles existed could read and write, so they
+ * keep reader and writer.
+ * 
+ * Migration timestamp: 1736870400000 (January 14, 2025)
+ */
+
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddApiKeyRoles1736870400000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'api_keys',
+      new TableColumn({
+        name: 'roles',
+        type: 'text',
+        isArray: true,
+        isNullable: false,
+        default: "'{reader,writer}'",
+      })
+    );
+    await queryRunner.query('ALTER TABLE api_keys ALTER COLUMN roles DROP DEFAULT');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('api_keys', 'roles');
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Add Run Heartbeat Migration
+ * 
+ * Adds runs.last_heartbeat_at, the last time the SDK reported a run as alive.
+ * The stuck-run sweeper counts it as activity alongside step and LLM call
+ * timestamps, so slow runs that keep sending heartbeats are not abandoned.
+ * The status column is text, so the new 'abandoned' status needs no change.
+ * 
+ * Migration timestamp: 1736956800000 (January 15, 2025)
+ */
+
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddRunHeartbeat1736956800000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'runs',
+      new TableColumn({
+        name: 'last_heartbeat_at',
+        type: 'timestamp',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('runs', 'last_heartbeat_at');
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * API Key Entity
+ * 
+ * TypeORM entity representing an API key of a project.
+ * Maps to the 'api_keys' table in PostgreSQL.
+ * 
+ * Relationships:
+ * - Many-to-One with ProjectEntity (a key belongs to one project)
+ * 
+ * Note: only the SHA-256 hash of a key is stored; the key itself is shown
+ * once, when it is created.
+ */
+
+import { Entity, PrimaryColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { ProjectEntity } from './Project.entity';
+import { ApiKeyRole } from '@xray/shared';
+
+@Entity('api_keys')
+export class ApiKey {
+  @PrimaryColumn('text')
+  id!: string;
+
+  @Column('text', { name: 'project_id' })
+  projectId!: string;
+
+  /**
+   * Many-to-One relationship with ProjectEntity
+   * Cascade delete: deleting a project deletes its keys
+   */
+  @ManyToOne(() => ProjectEntity, project => project.apiKeys, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'project_id' })
+  project!: ProjectEntity;
+
+  @Column('text')
+  name!: string;
+
+  @Column('text', { array: true })
+  roles!: ApiKeyRole[];
+
+  @Column('text', { name: 'key_prefix' })
+  keyPrefix!: string;
+
+  @Column('text', { name: 'key_hash', unique: true })
+  keyHash!: string;
+
+  @Column('timestamp', { name: 'created_at' })
+  createdAt!: Date;
+
+  @Column('timestamp', { nullable: true, name: 'last_used_at' })
+  lastUsedAt?: Date;
+
+  @Column('timestamp', { nullable: true, name: 'revoked_at' })
+  revokedAt?: Date;
+}
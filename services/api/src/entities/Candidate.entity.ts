@@ -6,12 +6,14 @@
  * 
  * Relationships:
  * - Many-to-One with Step entity (a candidate belongs to one step)
+ * - Many-to-One with Filter entity (the filter that rejected the candidate, if known)
  * 
  * Note: Candidates are stored per-step to track transformation through the pipeline.
  */
 
 import { Entity, PrimaryColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
 import { Step } from './Step.entity';
+import { Filter } from './Filter.entity';
 
 @Entity('candidates')
 export class Candidate {
@@ -41,6 +43,17 @@ export class Candidate {
   @Column('text', { nullable: true })
   reason?: string;
 
+  @Column('text', { nullable: true, name: 'filter_id' })
+  filterId?: string;
+
+  /**
+   * Many-to-One relationship with Filter entity
+   * Deleting a filter keeps the candidate but clears the attribution
+   */
+  @ManyToOne(() => Filter, filter => filter.candidates, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'filter_id' })
+  filter?: Filter;
+
   @Column('jsonb')
   data!: Record<string, any>;
 
@@ -6,12 +6,14 @@
  * 
  * Relationships:
  * - Many-to-One with Step entity (a filter belongs to one step)
+ * - One-to-Many with Candidate entities (candidates this filter rejected)
  * 
  * Note: Filters track which constraints were applied and their impact metrics.
  */
 
-import { Entity, PrimaryColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryColumn, Column, ManyToOne, OneToMany, JoinColumn } from 'typeorm';
 import { Step } from './Step.entity';
+import { Candidate } from './Candidate.entity';
 
 @Entity('filters')
 export class Filter {
@@ -43,4 +45,10 @@ export class Filter {
 
   @Column('jsonb', { default: {} })
   metadata!: Record<string, any>;
+
+  /**
+   * One-to-Many relationship with Candidate entities rejected by this filter
+   */
+  @OneToMany(() => Candidate, candidate => candidate.filter)
+  candidates!: Candidate[];
 }
@@ -0,0 +1,77 @@
+/**
+ * LLM Call Entity
+ * 
+ * TypeORM entity representing one model call made by a step.
+ * Maps to the 'llm_calls' table in PostgreSQL.
+ * 
+ * Relationships:
+ * - Many-to-One with Step entity (a call belongs to one step)
+ * 
+ * Note: completion is plain text (not JSONB) so it can be searched across runs.
+ */
+
+import { Entity, PrimaryColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { Step } from './Step.entity';
+import { LLMMessage } from '@xray/shared';
+
+@Entity('llm_calls')
+export class LLMCall {
+  @PrimaryColumn('text')
+  id!: string;
+
+  @Column('text', { name: 'step_id' })
+  stepId!: string;
+
+  /**
+   * Many-to-One relationship with Step entity
+   * Cascade delete: deleting a step deletes all its LLM calls
+   */
+  @ManyToOne(() => Step, step => step.llmCalls, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'step_id' })
+  step!: Step;
+
+  @Column('text', { nullable: true })
+  provider?: string;
+
+  @Column('text')
+  model!: string;
+
+  @Column('jsonb')
+  messages!: LLMMessage[];
+
+  @Column('text', { nullable: true })
+  completion?: string;
+
+  @Column('jsonb', { nullable: true })
+  parameters?: Record<string, any>;
+
+  @Column('real', { nullable: true })
+  temperature?: number;
+
+  @Column('integer', { nullable: true, name: 'prompt_tokens' })
+  promptTokens?: number;
+
+  @Column('integer', { nullable: true, name: 'completion_tokens' })
+  completionTokens?: number;
+
+  @Column('integer', { nullable: true, name: 'total_tokens' })
+  totalTokens?: number;
+
+  @Column('integer', { nullable: true, name: 'latency_ms' })
+  latencyMs?: number;
+
+  @Column('double precision', { nullable: true, name: 'cost_usd' })
+  costUsd?: number;
+
+  @Column('text', { nullable: true, name: 'finish_reason' })
+  finishReason?: string;
+
+  @Column('text', { nullable: true })
+  error?: string;
+
+  @Column('timestamp', { name: 'started_at' })
+  startedAt!: Date;
+
+  @Column('jsonb', { default: {} })
+  metadata!: Record<string, any>;
+}
@@ -0,0 +1,32 @@
+/**
+ * Project Entity
+ * 
+ * TypeORM entity representing a tenant of the API.
+ * Maps to the 'projects' table in PostgreSQL.
+ * 
+ * Relationships:
+ * - One-to-Many with RunEntity (a project owns many runs)
+ * - One-to-Many with ApiKey entities (a project has many API keys)
+ */
+
+import { Entity, PrimaryColumn, Column, OneToMany } from 'typeorm';
+import { RunEntity } from './Run.entity';
+import { ApiKey } from './ApiKey.entity';
+
+@Entity('projects')
+export class ProjectEntity {
+  @PrimaryColumn('text')
+  id!: string;
+
+  @Column('text', { unique: true })
+  name!: string;
+
+  @Column('timestamp', { name: 'created_at' })
+  createdAt!: Date;
+
+  @OneToMany(() => RunEntity, run => run.project)
+  runs!: RunEntity[];
+
+  @OneToMany(() => ApiKey, key => key.project)
+  apiKeys!: ApiKey[];
+}
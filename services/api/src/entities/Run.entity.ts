@@ -5,20 +5,33 @@
  * Maps to the 'runs' table in PostgreSQL.
  * 
  * Relationships:
+ * - Many-to-One with ProjectEntity (a run belongs to one project)
  * - One-to-Many with Step entities (a run has many steps)
  * 
  * Note: Uses snake_case for database columns (PostgreSQL convention)
  * but camelCase for TypeScript properties (JavaScript convention).
  */
 
-import { Entity, PrimaryColumn, Column, OneToMany } from 'typeorm';
+import { Entity, PrimaryColumn, Column, ManyToOne, OneToMany, JoinColumn } from 'typeorm';
 import { Step } from './Step.entity';
+import { ProjectEntity } from './Project.entity';
 
 @Entity('runs')
 export class RunEntity {
   @PrimaryColumn('text')
   id!: string;
 
+  @Column('text', { name: 'project_id' })
+  projectId!: string;
+
+  /**
+   * Many-to-One relationship with ProjectEntity
+   * Every query over runs is scoped by project
+   */
+  @ManyToOne(() => ProjectEntity, project => project.runs)
+  @JoinColumn({ name: 'project_id' })
+  project!: ProjectEntity;
+
   @Column('text', { name: 'pipeline_id' })
   pipelineId!: string;
 
@@ -26,7 +39,7 @@ export class RunEntity {
   pipelineVersion?: string;
 
   @Column('text')
-  status!: 'running' | 'completed' | 'failed';
+  status!: 'running' | 'completed' | 'failed' | 'abandoned';
 
   @Column('timestamp', { name: 'started_at' })
   startedAt!: Date;
@@ -46,6 +59,18 @@ export class RunEntity {
   @Column('text', { nullable: true })
   error?: string;
 
+  /**
+   * Probability the run was kept by trace sampling (null: not sampled)
+   */
+  @Column('real', { nullable: true, name: 'sample_rate' })
+  sampleRate?: number;
+
+  /**
+   * Last heartbeat from the SDK; the stuck-run sweeper counts it as activity
+   */
+  @Column('timestamp', { nullable: true, name: 'last_heartbeat_at' })
+  lastHeartbeatAt?: Date;
+
   /**
    * One-to-Many relationship with Step entities
    * Cascade delete: deleting a run deletes all its steps
@@ -6,14 +6,18 @@
  * 
  * Relationships:
  * - Many-to-One with RunEntity (a step belongs to one run)
+ * - Many-to-One with Step (a sub-step belongs to an optional parent step)
  * - One-to-Many with Candidate entities (a step has many candidates)
  * - One-to-Many with Filter entities (a step has many filters)
+ * - One-to-Many with LLMCall entities (a step has many model calls)
  */
 
 import { Entity, PrimaryColumn, Column, ManyToOne, OneToMany, JoinColumn } from 'typeorm';
 import { RunEntity } from './Run.entity';
 import { Candidate } from './Candidate.entity';
 import { Filter } from './Filter.entity';
+import { LLMCall } from './LLMCall.entity';
+import { CandidateSummary } from '@xray/shared';
 
 @Entity('steps')
 export class Step {
@@ -31,6 +35,20 @@ export class Step {
   @JoinColumn({ name: 'run_id' })
   run!: RunEntity;
 
+  @Column('text', { nullable: true, name: 'parent_step_id' })
+  parentStepId?: string;
+
+  /**
+   * Many-to-One self-relationship for sub-steps
+   * Cascade delete: deleting a step deletes all its sub-steps
+   */
+  @ManyToOne(() => Step, step => step.children, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'parent_step_id' })
+  parent?: Step;
+
+  @OneToMany(() => Step, step => step.parent)
+  children!: Step[];
+
   @Column('text', { name: 'step_type' })
   stepType!: string;
 
@@ -38,7 +56,7 @@ export class Step {
   stepIndex!: number;
 
   @Column('text')
-  status!: 'running' | 'completed' | 'failed';
+  status!: 'running' | 'completed' | 'failed' | 'abandoned';
 
   @Column('timestamp', { name: 'started_at' })
   startedAt!: Date;
@@ -76,6 +94,12 @@ export class Step {
   @Column('boolean', { default: false, name: 'capture_all_candidates' })
   captureAllCandidates!: boolean;
 
+  /**
+   * Aggregate statistics over all candidates, including ones not stored as rows
+   */
+  @Column('jsonb', { nullable: true, name: 'candidate_summary' })
+  candidateSummary?: CandidateSummary;
+
   /**
    * One-to-Many relationship with Candidate entities
    * Cascade delete: deleting a step deletes all its candidates
@@ -89,4 +113,11 @@ export class Step {
    */
   @OneToMany(() => Filter, filter => filter.step, { cascade: true })
   filters!: Filter[];
+
+  /**
+   * One-to-Many relationship with LLMCall entities
+   * Cascade delete: deleting a step deletes all its LLM calls
+   */
+  @OneToMany(() => LLMCall, call => call.step, { cascade: true })
+  llmCalls!: LLMCall[];
 }
@@ -0,0 +1,153 @@
+/**
+ * Authentication and Authorization Middleware
+ *
+ * apiKeyAuth resolves the caller's API key to its project and roles and sets
+ * req.projectId, which routes use to scope every read and write; requests
+ * without a valid key get 401. requirePermission guards a route by what the
+ * key's roles allow (403 naming the missing permission). adminAuth guards the
+ * operator routes with a separate token (API_ADMIN_TOKEN). Failures go to the
+ * central error handler.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiKeysRepository } from '../repositories/apiKeys';
+import { HttpError } from './errors';
+import { ApiKeyRole } from '@xray/shared';
+
+declare global {
+  namespace Express {
+    interface Request {
+      projectId?: string;   // Project of the caller's API key
+      apiKeyId?: string;
+      roles?: ApiKeyRole[];
+    }
+  }
+}
+
+export interface ApiKeyAuthOptions {
+  disabled?: boolean;           // Treat every request as the 'default' project (local development only)
+  touchIntervalMs?: number;     // How often a key's lastUsedAt is refreshed (default: 60s)
+}
+
+export type Permission = 'read' | 'write' | 'admin';
+
+/**
+ * Permissions granted by each role; a pipeline's writer key cannot read runs back
+ */
+const ROLE_PERMISSIONS: Record<ApiKeyRole, Permission[]> = {
+  reader: ['read'],
+  writer: ['write'],
+  admin: ['read', 'write', 'admin']
+};
+
+export const API_KEY_ROLES = Object.keys(ROLE_PERMISSIONS) as ApiKeyRole[];
+
+export const DEFAULT_PROJECT_ID = 'default';
+
+export function apiKeyAuth(options: ApiKeyAuthOptions = {}): RequestHandler {
+  const apiKeysRepo = new ApiKeysRepository();
+  const touchIntervalMs = options.touchIntervalMs ?? 60 * 1000;
+  const lastTouched = new Map<string, number>();
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (req.method === 'OPTIONS') {
+      return next();
+    }
+
+    if (options.disabled) {
+      req.projectId = DEFAULT_PROJECT_ID;
+      req.roles = API_KEY_ROLES;
+      return next();
+    }
+
+    const key = presentedCredential(req);
+    if (!key) {
+      return next(new HttpError(401, 'unauthorized', 'Missing API key (Authorization: Bearer <key> or X-API-Key)'));
+    }
+
+    try {
+      const apiKey = await apiKeysRepo.findActiveByKey(key);
+      if (!apiKey) {
+        return next(new HttpError(401, 'unauthorized', 'Invalid or revoked API key'));
+      }
+
+      req.projectId = apiKey.projectId;
+      req.apiKeyId = apiKey.id;
+      req.roles = apiKey.roles;
+
+      const now = Date.now();
+      if (now - (lastTouched.get(apiKey.id) ?? 0) >= touchIntervalMs) {
+        lastTouched.set(apiKey.id, now);
+        apiKeysRepo.touch(apiKey.id).catch(error => console.warn('Failed to record API key use:', error.message));
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Allows the request only if one of the caller's roles grants the permission
+ * Must run after apiKeyAuth
+ */
+export function requirePermission(permission: Permission): RequestHandler {
+  const grantedBy = API_KEY_ROLES.filter(role => ROLE_PERMISSIONS[role].includes(permission));
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if ((req.roles || []).some(role => ROLE_PERMISSIONS[role]?.includes(permission))) {
+      return next();
+    }
+    next(new HttpError(
+      403,
+      'forbidden',
+      `Missing permission '${permission}' (granted by role ${grantedBy.join(' or ')})`,
+      [{ path: 'roles', message: `key has ${(req.roles || []).join(', ') || 'no roles'}` }]
+    ));
+  };
+}
+
+/**
+ * Allows requests carrying the operator token; without a configured token,
+ * admin routes are disabled
+ */
+export function adminAuth(token: string | undefined): RequestHandler {
+  const expected = token ? digest(token) : null;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!expected) {
+      return next(new HttpError(403, 'forbidden', 'Admin routes are disabled; set API_ADMIN_TOKEN to enable them'));
+    }
+
+    const presented = presentedCredential(req);
+    if (!presented || !timingSafeEqual(digest(presented), expected)) {
+      return next(new HttpError(401, 'unauthorized', 'Invalid admin token'));
+    }
+    next();
+  };
+}
+
+/**
+ * The project a request was authenticated for
+ * @throws Error if no auth middleware ran for the route
+ */
+export function requireProject(req: Request): string {
+  if (!req.projectId) {
+    throw new Error('Request is not authenticated');
+  }
+  return req.projectId;
+}
+
+function presentedCredential(req: Request): string | undefined {
+  const header = req.header('Authorization');
+  const bearer = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return (bearer || req.header('X-API-Key'))?.trim() || undefined;
+}
+
+/**
+ * Fixed-length digest, so tokens of different lengths can be compared in constant time
+ */
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
@@ -0,0 +1,125 @@
+/**
+ * Error Handling Middleware
+ *
+ * Every failed request ends here and gets the same body,
+ * { code, message, details? }, with details listing problems by field path.
+ * Routes and middleware pass errors on with next(error); the typed errors
+ * they throw decide the status (400, 401, 403, 404, 409, 413, 415, 422),
+ * and anything else is a 500 that is logged.
+ */
+
+import { Request, Response, NextFunction, ErrorRequestHandler } from 'express';
+import { ApiErrorBody, ApiErrorCode, ApiErrorDetail } from '@xray/shared';
+import { ConflictError, NotFoundError, StateConflictError, ValidationError } from '../repositories/base/errors';
+
+/**
+ * An error with a fixed HTTP status and code, for failures outside the repositories
+ * (authentication, unreadable requests, unsupported content types, ...)
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly details?: ApiErrorDetail[];
+
+  constructor(status: number, code: ApiErrorCode, message: string, details?: ApiErrorDetail[]) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Postgres errors caused by the submitted values rather than by the server
+ */
+const DATABASE_VALUE_ERRORS: Record<string, string> = {
+  '23503': 'references a record that does not exist',
+  '22P02': 'has an invalid value',
+  '22007': 'has an invalid date',
+  '22008': 'has an out-of-range date',
+  '22003': 'has an out-of-range number'
+};
+
+/**
+ * The status and body an error is reported with
+ * Also used for per-event results of batch ingestion
+ */
+export function describeError(error: any): { status: number; body: ApiErrorBody } {
+  if (error instanceof HttpError) {
+    return {
+      status: error.status,
+      body: { code: error.code, message: error.message, ...(error.details ? { details: error.details } : {}) }
+    };
+  }
+  if (error instanceof ValidationError) {
+    return { status: 422, body: { code: 'validation_failed', message: error.message, details: error.details } };
+  }
+  if (error instanceof NotFoundError) {
+    return { status: 404, body: { code: 'not_found', message: error.message } };
+  }
+  if (error instanceof StateConflictError) {
+    return {
+      status: 409,
+      body: {
+        code: 'conflict',
+        message: error.message,
+        details: [{ path: error.field, message: 'conflicts with the current state' }],
+        current: error.current
+      }
+    };
+  }
+  if (error instanceof ConflictError) {
+    return {
+      status: 409,
+      body: {
+        code: 'conflict',
+        message: error.message,
+        ...(error.field ? { details: [{ path: error.field, message: 'differs from the stored value' }] } : {})
+      }
+    };
+  }
+
+  // Raised by express.json() before any route runs
+  if (error?.type === 'entity.parse.failed') {
+    return { status: 400, body: { code: 'invalid_request', message: `Malformed JSON body: ${error.message}` } };
+  }
+  if (error?.type === 'entity.too.large') {
+    return { status: 413, body: { code: 'payload_too_large', message: `Request body is over the ${error.limit} byte limit` } };
+  }
+
+  const databaseProblem = DATABASE_VALUE_ERRORS[error?.code];
+  if (databaseProblem) {
+    const path = error.column || error.constraint || 'body';
+    return {
+      status: 422,
+      body: { code: 'validation_failed', message: error.detail || error.message, details: [{ path, message: databaseProblem }] }
+    };
+  }
+
+  // The cause stays in the server log (callers log 5xx errors); it may reveal queries or internals
+  return { status: 500, body: { code: 'internal_error', message: 'Internal server error' } };
+}
+
+export function errorHandler(): ErrorRequestHandler {
+  return (error: any, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+      return next(error);
+    }
+
+    const { status, body } = describeError(error);
+    if (status >= 500) {
+      console.error(`Error handling ${req.method} ${req.originalUrl}:`, error);
+    }
+    res.status(status).json(body);
+  };
+}
+
+/**
+ * 404 for requests no route matched
+ */
+export function notFoundHandler() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    next(new HttpError(404, 'not_found', `No route for ${req.method} ${req.path}`));
+  };
+}
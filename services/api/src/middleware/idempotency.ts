@@ -0,0 +1,153 @@
+/**
+ * Idempotency Middleware
+ *
+ * Replays the stored response for a POST that repeats an Idempotency-Key,
+ * so a client retrying after a lost response does not create duplicates.
+ * Reusing a key with a different body is rejected with 409. Bodies a parser has
+ * read are compared as parsed; streamed bodies (event file imports) by their bytes.
+ * Keys are kept in memory per process for a limited time, scoped by project,
+ * so this must run after authentication. Memory is bounded by both the number
+ * of keys and the total size of the stored responses.
+ */
+
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { HttpError } from './errors';
+
+export interface IdempotencyOptions {
+  ttlMs?: number;       // How long a key is remembered (default: 24h)
+  maxEntries?: number;  // Oldest keys are evicted beyond this (default: 10000)
+  maxBytes?: number;    // Oldest keys are evicted beyond this much stored response body (default: 64MB)
+}
+
+interface StoredResponse {
+  fingerprint?: string; // Unknown until a streamed body has been read
+  expiresAt: number;
+  done: Promise<void>;
+  status?: number;
+  body?: string;        // Serialized JSON, as sent
+  bytes: number;
+}
+
+export function idempotency(options: IdempotencyOptions = {}): RequestHandler {
+  const ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+  const maxEntries = options.maxEntries ?? 10000;
+  const maxBytes = options.maxBytes ?? 64 * 1024 * 1024;
+  const entries = new Map<string, StoredResponse>();
+  let storedBytes = 0;
+
+  const remove = (scopedKey: string) => {
+    const entry = entries.get(scopedKey);
+    if (entry) {
+      storedBytes -= entry.bytes;
+      entries.delete(scopedKey);
+    }
+  };
+  const evictOldest = () => {
+    while (entries.size > maxEntries || storedBytes > maxBytes) {
+      remove(entries.keys().next().value as string);
+    }
+  };
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.header('Idempotency-Key');
+    if (req.method !== 'POST' || !key) {
+      return next();
+    }
+
+    // Keys are per project, so one tenant can never be replayed another's response
+    const scopedKey = `${req.projectId ?? ''} ${req.originalUrl} ${key}`;
+    // A body no parser has read is left for the route to stream, and hashed as it goes
+    const streamed = !req.readableEnded;
+    let fingerprint = streamed
+      ? undefined
+      : createHash('sha256').update(JSON.stringify(req.body ?? null)).digest('hex');
+    const existing = entries.get(scopedKey);
+    const reused = () => next(new HttpError(
+      409,
+      'conflict',
+      `Idempotency-Key ${key} was already used with a different request body`,
+      [{ path: 'Idempotency-Key', message: 'was used with a different body' }]
+    ));
+
+    if (existing && existing.expiresAt > Date.now()) {
+      if (fingerprint !== undefined && existing.fingerprint !== undefined && existing.fingerprint !== fingerprint) {
+        return reused();
+      }
+      // Wait for an attempt that is still in progress, then replay its result
+      await existing.done;
+      if (existing.status !== undefined) {
+        // Nothing else will read a streamed body that is replayed, so read it here to compare
+        fingerprint ??= await hashRawBody(req, true);
+        if (existing.fingerprint !== fingerprint) {
+          return reused();
+        }
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(existing.status).type('json').send(existing.body);
+      }
+    }
+
+    let finish!: () => void;
+    const entry: StoredResponse = {
+      fingerprint,
+      expiresAt: Date.now() + ttlMs,
+      done: new Promise<void>(resolve => { finish = resolve; }),
+      bytes: 0
+    };
+    remove(scopedKey);
+    entries.set(scopedKey, entry);
+    evictOldest();
+    if (streamed) {
+      hashRawBody(req).then(digest => { entry.fingerprint = digest; });
+    }
+
+    // Only successful responses are stored; a failed attempt may be retried for real.
+    // A response too large to keep is not stored either, so its retry runs again
+    // (creates with client-supplied IDs return the stored records)
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (res.statusCode >= 200 && res.statusCode < 300 && entries.get(scopedKey) === entry) {
+        const serialized = JSON.stringify(body) ?? 'null';
+        const bytes = Buffer.byteLength(serialized);
+        if (bytes <= maxBytes) {
+          entry.status = res.statusCode;
+          entry.body = serialized;
+          entry.bytes = bytes;
+          storedBytes += bytes;
+          evictOldest();
+        }
+      }
+      return json(body);
+    };
+    res.on('close', () => {
+      // A streamed body the route never read to the end cannot be compared, so is not kept
+      const unusable = entry.status === undefined || entry.fingerprint === undefined;
+      if (unusable && entries.get(scopedKey) === entry) {
+        remove(scopedKey);
+      }
+      finish();
+    });
+
+    next();
+  };
+}
+
+/**
+ * Hashes a request body that no parser has read
+ * The body is hashed as the route reads it; with consume, it is read here instead
+ * @returns The body's digest, or undefined if the request closed before its end
+ */
+function hashRawBody(req: Request, consume: boolean = false): Promise<string | undefined> {
+  const hash = createHash('sha256');
+  return new Promise(resolve => {
+    req.on('data', (chunk: Buffer) => hash.update(chunk));
+    req.once('end', () => resolve(hash.digest('hex')));
+    req.once('close', () => resolve(undefined));
+    // Listening for data starts the flow; hold it until the route starts reading
+    if (consume) {
+      req.resume();
+    } else {
+      req.pause();
+    }
+  });
+}
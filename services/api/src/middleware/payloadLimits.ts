@@ -0,0 +1,104 @@
+/**
+ * Payload Limits Middleware
+ *
+ * Rejects requests where a single content field (input, output, data, ...)
+ * is over its byte limit, with a 413 that names the field, so one oversized
+ * value is not silently written into a JSONB column. Runs after the JSON body
+ * parser, whose own limit still caps the request as a whole.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { HttpError } from './errors';
+
+export interface PayloadLimitOptions {
+  maxFieldBytes?: number;            // Limit for any content field, as serialized JSON (default: 1 MiB)
+  fields?: Record<string, number>;   // Per-field limits by name
+}
+
+const DEFAULT_MAX_FIELD_BYTES = 1024 * 1024;
+
+const CONTENT_FIELDS = new Set([
+  'input', 'output', 'error', 'reasoning', 'config', 'data', 'reason', 'metadata',
+  'messages', 'completion', 'parameters'
+]);
+
+/**
+ * Limits configured for this deployment (API_MAX_FIELD_BYTES)
+ */
+export function payloadLimitsFromEnv(): PayloadLimitOptions {
+  return {
+    maxFieldBytes: process.env.API_MAX_FIELD_BYTES ? Number(process.env.API_MAX_FIELD_BYTES) : undefined
+  };
+}
+
+export interface FieldViolation {
+  field: string;
+  path: string;
+  size: number;
+  limit: number;
+}
+
+/**
+ * Find the first content field over its limit, anywhere in a payload
+ * (bulk runs nest steps, candidates and filters; event batches nest records)
+ */
+export function findFieldViolation(
+  value: unknown,
+  options: PayloadLimitOptions = {},
+  path: string = ''
+): FieldViolation | null {
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      const violation = findFieldViolation(value[i], options, `${path}[${i}]`);
+      if (violation) {
+        return violation;
+      }
+    }
+    return null;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  for (const [key, child] of Object.entries(record)) {
+    const childPath = path ? `${path}.${key}` : key;
+    // An ingest event's data is the record being written, not a content field
+    const isEventData = key === 'data' && typeof record.type === 'string';
+
+    if (CONTENT_FIELDS.has(key) && !isEventData) {
+      const size = Buffer.byteLength(JSON.stringify(child) ?? '');
+      const limit = options.fields?.[key] ?? options.maxFieldBytes ?? DEFAULT_MAX_FIELD_BYTES;
+      if (size > limit) {
+        return { field: key, path: childPath, size, limit };
+      }
+      continue;
+    }
+
+    const violation = findFieldViolation(child, options, childPath);
+    if (violation) {
+      return violation;
+    }
+  }
+  return null;
+}
+
+export function payloadLimits(options: PayloadLimitOptions = {}): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.method !== 'POST' && req.method !== 'PATCH') {
+      return next();
+    }
+
+    const violation = findFieldViolation(req.body, options);
+    if (violation) {
+      return next(new HttpError(
+        413,
+        'payload_too_large',
+        `Field ${violation.path} is ${violation.size} bytes, over the ${violation.limit} byte limit`,
+        [{ path: violation.path, message: `is ${violation.size} bytes, over the ${violation.limit} byte limit` }]
+      ));
+    }
+    next();
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * API Keys Repository
+ * 
+ * Handles data access for ApiKey entities.
+ * Keys are generated here and only their SHA-256 hash is stored; lookups
+ * hash the presented key. Keys are random (192 bits), so a plain hash is
+ * enough: there is nothing to brute-force from a leaked hash.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { IsNull } from 'typeorm';
+import { AppDataSource } from '../db/data-source';
+import { ApiKey } from '../entities/ApiKey.entity';
+import { ApiKey as ApiKeyDomain, ApiKeyRole } from '@xray/shared';
+import { BaseRepository } from './base/BaseRepository';
+
+const KEY_PREFIX = 'xray_';
+const DISPLAY_PREFIX_LENGTH = 12;
+
+export class ApiKeysRepository extends BaseRepository<ApiKey, ApiKeyDomain> {
+  constructor() {
+    super(AppDataSource.getRepository(ApiKey));
+  }
+
+  /**
+   * Generates and stores a new key for a project
+   * @param projectId - Project the key grants access to
+   * @param name - Label for the key (e.g. the pipeline or person using it)
+   * @param roles - What the key may do in the project (duplicates are dropped)
+   * @returns The stored key and the key itself, which is not retrievable later
+   */
+  async issue(projectId: string, name: string, roles: ApiKeyRole[]): Promise<{ apiKey: ApiKeyDomain; key: string }> {
+    const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+    const entity = this.repository.create({
+      id: uuidv4(),
+      projectId,
+      name,
+      roles: [...new Set(roles)],
+      keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+      createdAt: new Date()
+    });
+    const saved = await this.repository.save(entity);
+    return { apiKey: this.mapToDomain(saved), key };
+  }
+
+  /**
+   * Resolves a presented key to its stored record
+   * @returns The key, or null if it is unknown or revoked
+   */
+  async findActiveByKey(key: string): Promise<ApiKeyDomain | null> {
+    const entity = await this.repository.findOne({
+      where: { keyHash: hashApiKey(key), revokedAt: IsNull() }
+    });
+    return entity ? this.mapToDomain(entity) : null;
+  }
+
+  /**
+   * Finds all keys of a project (revoked ones included), newest first
+   */
+  async findByProjectId(projectId: string): Promise<ApiKeyDomain[]> {
+    const keys = await this.repository.find({
+      where: { projectId },
+      order: { createdAt: 'DESC' }
+    });
+    return keys.map(key => this.mapToDomain(key));
+  }
+
+  /**
+   * Revokes a key; revoking it again keeps the original revocation time
+   * @returns The revoked key, or null if it does not exist
+   */
+  async revoke(id: string): Promise<ApiKeyDomain | null> {
+    await this.repository.update({ id, revokedAt: IsNull() }, { revokedAt: new Date() });
+    return this.findById(id);
+  }
+
+  /**
+   * Replaces the roles of a key (duplicates are dropped)
+   * @returns The updated key, or null if it does not exist
+   */
+  async setRoles(id: string, roles: ApiKeyRole[]): Promise<ApiKeyDomain | null> {
+    await this.repository.update(id, { roles: [...new Set(roles)] });
+    return this.findById(id);
+  }
+
+  /**
+   * Records that a key was used
+   */
+  async touch(id: string): Promise<void> {
+    await this.repository.update(id, { lastUsedAt: new Date() });
+  }
+
+  /**
+   * Maps TypeORM entity to domain model (the hash never leaves the repository)
+   */
+  protected mapToDomain(entity: ApiKey): ApiKeyDomain {
+    return {
+      id: entity.id,
+      projectId: entity.projectId,
+      name: entity.name,
+      roles: entity.roles,
+      keyPrefix: entity.keyPrefix,
+      createdAt: entity.createdAt,
+      lastUsedAt: entity.lastUsedAt,
+      revokedAt: entity.revokedAt
+    };
+  }
+
+  /**
+   * Gets entity name for error messages
+   */
+  protected getEntityName(): string {
+    return 'ApiKey';
+  }
+}
+
+/**
+ * SHA-256 of a key, as stored in api_keys.key_hash
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
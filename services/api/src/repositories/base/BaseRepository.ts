@@ -8,11 +8,31 @@
  * @template TDomain - Domain model type (from @xray/shared)
  */
 
+import { isDeepStrictEqual } from 'util';
 import { Repository, FindOptionsWhere, ObjectLiteral } from 'typeorm';
+import { ConflictError, NotFoundError, ValidationError } from './errors';
 
 export abstract class BaseRepository<TEntity extends ObjectLiteral, TDomain> {
   protected repository: Repository<TEntity>;
 
+  /**
+   * Fields a repeated create must match for a client-supplied ID to be accepted
+   * Fields changed by later updates (status, metadata, ...) are left out
+   */
+  protected identityFields: (keyof TDomain)[] = [];
+
+  /**
+   * Identity field naming who the record belongs to (its project, run or step)
+   * An ID stored under another owner is a conflict that names no field, so a
+   * client never learns anything about another project's records
+   */
+  protected ownerField?: keyof TDomain;
+
+  /**
+   * Fields update() may write; anything else (id, ownership, identity) stays as created
+   */
+  protected updatableFields: (keyof TDomain)[] = [];
+
   constructor(repository: Repository<TEntity>) {
     this.repository = repository;
   }
@@ -31,19 +51,60 @@ export abstract class BaseRepository<TEntity extends ObjectLiteral, TDomain> {
   /**
    * Updates an existing entity
    * @param id - Entity identifier
-   * @param updates - Partial domain model with updates
+   * @param updates - Partial domain model with updates (undefined members are skipped)
    * @returns Updated domain model
-   * @throws Error if entity not found
+   * @throws ValidationError if updates name a field outside updatableFields
+   * @throws NotFoundError if entity not found
    */
   async update(id: string, updates: Partial<TDomain>): Promise<TDomain> {
-    await this.repository.update(id, updates as any);
+    if (this.updatedFields(updates).length > 0) {
+      await this.repository.update(id, updates as any);
+    }
     const updated = await this.findById(id);
     if (!updated) {
-      throw new Error(`${this.getEntityName()} with id ${id} not found`);
+      throw new NotFoundError(this.getEntityName(), id);
     }
     return updated;
   }
 
+  /**
+   * Updates an entity only if it still matches expected (e.g. its status has
+   * not changed since it was read), so concurrent writers cannot both succeed
+   * @param id - Entity identifier
+   * @param expected - Field values the stored entity must still have
+   * @param updates - Partial domain model with updates (undefined members are skipped)
+   * @returns Updated domain model, or null if the entity no longer matches (or does not exist)
+   * @throws ValidationError if updates name a field outside updatableFields
+   */
+  async updateWhere(id: string, expected: Partial<TDomain>, updates: Partial<TDomain>): Promise<TDomain | null> {
+    const where = { ...expected, id } as any;
+    if (this.updatedFields(updates).length > 0) {
+      const result = await this.repository.update(where, updates as any);
+      if (!result.affected) {
+        return null;
+      }
+      return this.findById(id);
+    }
+    const entity = await this.repository.findOne({ where });
+    return entity ? this.mapToDomain(entity) : null;
+  }
+
+  /**
+   * Fields an update sets
+   * @throws ValidationError if any is outside updatableFields
+   */
+  private updatedFields(updates: Partial<TDomain>): string[] {
+    const fields = Object.keys(updates).filter(field => updates[field as keyof TDomain] !== undefined);
+    const locked = fields.filter(field => !this.updatableFields.includes(field as keyof TDomain));
+    if (locked.length > 0) {
+      throw new ValidationError(
+        `${this.getEntityName()} fields cannot be updated: ${locked.join(', ')}`,
+        locked.map(field => ({ path: field, message: 'cannot be updated' }))
+      );
+    }
+    return fields;
+  }
+
   /**
    * Finds an entity by its identifier
    * @param id - Entity identifier
@@ -54,6 +115,74 @@ export abstract class BaseRepository<TEntity extends ObjectLiteral, TDomain> {
     return entity ? this.mapToDomain(entity) : null;
   }
 
+  /**
+   * Looks up a client-supplied ID so a repeated create returns the stored record
+   * @param data - Domain model data being created
+   * @returns Stored domain model, or null if the ID is new (or was not supplied)
+   * @throws ConflictError if the ID is stored with different identity fields
+   */
+  protected async findExisting(data: Partial<TDomain> & { id?: string }): Promise<TDomain | null> {
+    if (!data.id) {
+      return null;
+    }
+    const existing = await this.findById(data.id);
+    if (existing) {
+      this.assertSameIdentity(data.id, existing, data);
+    }
+    return existing;
+  }
+
+  /**
+   * Throws ConflictError if data disagrees with a stored record on any identity field
+   * Fields missing from data are not compared
+   */
+  protected assertSameIdentity(id: string, existing: TDomain, data: Partial<TDomain>): void {
+    const owner = this.ownerField;
+    if (owner && data[owner] !== undefined && !this.sameValue(owner, existing[owner], data[owner])) {
+      throw new ConflictError(this.getEntityName(), id);
+    }
+    for (const field of this.identityFields) {
+      if (data[field] !== undefined && !this.sameValue(field, existing[field], data[field])) {
+        throw new ConflictError(this.getEntityName(), id, String(field));
+      }
+    }
+  }
+
+  /**
+   * The same check for an entity read elsewhere, e.g. within a bulk transaction
+   * @throws ConflictError if data disagrees with the entity on its owner or any identity field
+   */
+  assertSameAsStored(entity: TEntity, data: Partial<TDomain>): void {
+    this.assertSameIdentity(entity.id, this.mapToDomain(entity), data);
+  }
+
+  /**
+   * Compares a stored value with a submitted one
+   * Both go through JSON so dates, key order and undefined members compare as stored
+   */
+  protected sameValue(field: keyof TDomain, stored: unknown, submitted: unknown): boolean {
+    const normalize = (value: unknown) => (value === undefined ? null : JSON.parse(JSON.stringify(value)));
+    return isDeepStrictEqual(normalize(stored), normalize(submitted));
+  }
+
+  /**
+   * Saves a new entity; if a concurrent create with the same ID won the race,
+   * returns that record instead (after the same identity check)
+   */
+  protected async saveNew(data: TDomain & { id: string }): Promise<TDomain> {
+    try {
+      const entity = this.repository.create(data as any);
+      const saved = await this.repository.save(entity) as unknown as TEntity;
+      return this.mapToDomain(saved);
+    } catch (error) {
+      const existing = isUniqueViolation(error) ? await this.findExisting(data) : null;
+      if (!existing) {
+        throw error;
+      }
+      return existing;
+    }
+  }
+
   /**
    * Maps entity to domain model
    * Must be implemented by subclasses
@@ -66,3 +195,17 @@ export abstract class BaseRepository<TEntity extends ObjectLiteral, TDomain> {
   protected abstract getEntityName(): string;
 }
 
+/**
+ * Whether a database error is a primary key / unique constraint violation
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+/**
+ * A substring pattern for LIKE / ILIKE that matches the text literally
+ * Use with ESCAPE '\', so %, _ and \ in the text are not wildcards
+ */
+export function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+}
@@ -18,14 +18,22 @@ export interface PaginationOptions {
  */
 export interface RunFilters extends PaginationOptions {
   pipelineId?: string;
-  status?: 'running' | 'completed' | 'failed';
+  status?: 'running' | 'completed' | 'failed' | 'abandoned';
 }
 
 /**
  * Step query filters
  */
 export interface StepFilters extends PaginationOptions {
-  status?: 'running' | 'completed' | 'failed';
+  status?: 'running' | 'completed' | 'failed' | 'abandoned';
+}
+
+/**
+ * Step listing view options
+ * nested returns root steps with their sub-steps as children
+ */
+export interface StepViewOptions {
+  nested?: boolean;
 }
 
 /**
@@ -33,5 +41,21 @@ export interface StepFilters extends PaginationOptions {
  */
 export interface CandidateFilters extends PaginationOptions {
   status?: 'accepted' | 'rejected' | 'pending';
+  reason?: string;   // Case-insensitive substring match
+  filterId?: string;
 }
 
+
+/**
+ * LLM call query filters (across runs)
+ */
+export interface LLMCallFilters extends PaginationOptions {
+  model?: string;
+  provider?: string;
+  finishReason?: string;
+  completionContains?: string;   // Case-insensitive substring match
+  promptContains?: string;       // Case-insensitive substring match over the messages
+  pipelineId?: string;
+  stepType?: string;
+  runId?: string;
+}
@@ -0,0 +1,77 @@
+/**
+ * Repository Errors
+ *
+ * Typed errors so the central error handler can map repository and
+ * validation failures to HTTP status codes.
+ */
+
+import { ApiErrorDetail } from '@xray/shared';
+
+/**
+ * A client-supplied ID already exists (with different values, when field is given)
+ */
+export class ConflictError extends Error {
+  readonly entity: string;
+  readonly id: string;
+  readonly field?: string;
+
+  constructor(entity: string, id: string, field?: string) {
+    super(field
+      ? `${entity} with id ${id} already exists with a different ${field}`
+      : `${entity} with id ${id} already exists`);
+    this.name = 'ConflictError';
+    this.entity = entity;
+    this.id = id;
+    this.field = field;
+  }
+}
+
+/**
+ * A referenced record does not exist (or belongs to another project)
+ */
+export class NotFoundError extends Error {
+  readonly entity: string;
+  readonly id: string;
+
+  constructor(entity: string, id: string) {
+    super(`${entity} with id ${id} not found`);
+    this.name = 'NotFoundError';
+    this.entity = entity;
+    this.id = id;
+  }
+}
+
+/**
+ * Submitted fields break a resource's schema (or name fields that cannot be
+ * written); details lists every problem by field path
+ */
+export class ValidationError extends Error {
+  readonly details: ApiErrorDetail[];
+
+  constructor(message: string, details: ApiErrorDetail[]) {
+    super(message);
+    this.name = 'ValidationError';
+    this.details = details;
+  }
+}
+
+/**
+ * A write the record's current state does not allow (a finished run changed,
+ * a step completed twice, a completion before the start); current is the
+ * state the write conflicted with
+ */
+export class StateConflictError extends Error {
+  readonly entity: string;
+  readonly id: string;
+  readonly field: string;
+  readonly current: Record<string, unknown>;
+
+  constructor(entity: string, id: string, field: string, message: string, current: Record<string, unknown>) {
+    super(message);
+    this.name = 'StateConflictError';
+    this.entity = entity;
+    this.id = id;
+    this.field = field;
+    this.current = current;
+  }
+}
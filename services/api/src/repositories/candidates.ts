@@ -7,13 +7,21 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { In } from 'typeorm';
 import { AppDataSource } from '../db/data-source';
 import { Candidate } from '../entities/Candidate.entity';
+import { Filter } from '../entities/Filter.entity';
 import { Candidate as CandidateDomain } from '@xray/shared';
-import { BaseRepository } from './base/BaseRepository';
+import { BaseRepository, containsPattern, isUniqueViolation } from './base/BaseRepository';
 import { CandidateFilters } from './base/QueryFilters';
+import { ValidationError } from './base/errors';
 
 export class CandidatesRepository extends BaseRepository<Candidate, CandidateDomain> {
+  protected identityFields: (keyof CandidateDomain)[] = [
+    'stepId', 'candidateId', 'status', 'score', 'reason', 'filterId', 'data'
+  ];
+  protected ownerField: keyof CandidateDomain = 'stepId';
+
   constructor() {
     super(AppDataSource.getRepository(Candidate));
   }
@@ -21,11 +29,21 @@ export class CandidatesRepository extends BaseRepository<Candidate, CandidateDom
   /**
    * Creates multiple candidates in a single transaction
    * Optimized for bulk inserts (common use case: 100s-1000s of candidates)
+   * Candidates with a client-supplied ID that is already stored are returned as stored,
+   * so a repeated batch inserts only what is missing
    * 
    * @param candidates - Array of candidate domain models
-   * @returns Array of created candidates
+   * @param path - Where the candidates are in the request, for validation errors
+   * @param beforeInsert - Checks to run only if any candidate is new (e.g. that its run accepts it)
+   * @returns Array of created (or previously created) candidates, in input order
+   * @throws ConflictError if a stored ID has different values
+   * @throws ValidationError if a new candidate's filterId is not a filter of its step
    */
-  async createMany(candidates: CandidateDomain[]): Promise<CandidateDomain[]> {
+  async createMany(
+    candidates: CandidateDomain[],
+    path: string = 'candidates',
+    beforeInsert?: () => void
+  ): Promise<CandidateDomain[]> {
     if (candidates.length === 0) {
       return [];
     }
@@ -36,9 +54,89 @@ export class CandidatesRepository extends BaseRepository<Candidate, CandidateDom
       metadata: c.metadata || {}
     }));
 
-    const entities = this.repository.create(candidatesWithIds as any);
-    const saved = await this.repository.save(entities);
-    return saved.map(c => this.mapToDomain(c));
+    // A concurrent repeat of the same batch can win the race; look again once
+    for (let attempt = 1; ; attempt++) {
+      const existing = await this.findExistingMany(candidatesWithIds);
+      const fresh = candidatesWithIds.filter(c => !existing.has(c.id));
+      if (fresh.length > 0) {
+        beforeInsert?.();
+      }
+      await this.assertFiltersOfStep(candidatesWithIds, existing, path);
+
+      try {
+        const entities = this.repository.create(fresh as any);
+        const saved = await this.repository.save(entities);
+        const created = new Map(saved.map(c => [c.id, this.mapToDomain(c)]));
+        return candidatesWithIds.map(c => existing.get(c.id) || created.get(c.id)!);
+      } catch (error) {
+        if (attempt > 1 || !isUniqueViolation(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Stored candidates among a batch, checked against the submitted values
+   * @throws ConflictError if a stored ID has different values
+   */
+  private async findExistingMany(candidates: CandidateDomain[]): Promise<Map<string, CandidateDomain>> {
+    const stored = await this.repository.find({
+      where: { id: In(candidates.map(c => c.id)) }
+    });
+    const existing = new Map(stored.map(c => [c.id, this.mapToDomain(c)]));
+
+    for (const candidate of candidates) {
+      const match = existing.get(candidate.id);
+      if (match) {
+        this.assertSameIdentity(candidate.id, match, candidate);
+      }
+    }
+    return existing;
+  }
+
+  /**
+   * Rejects new candidates whose filterId is not a filter of their own step
+   * Stored candidates are left alone: a repeated batch is accepted as it was
+   * @throws ValidationError listing each offending candidate
+   */
+  private async assertFiltersOfStep(
+    candidates: CandidateDomain[],
+    existing: Map<string, CandidateDomain>,
+    path: string
+  ): Promise<void> {
+    const filterIds = [...new Set(candidates
+      .filter(c => !existing.has(c.id))
+      .map(c => c.filterId)
+      .filter((id): id is string => !!id))];
+    if (filterIds.length === 0) {
+      return;
+    }
+
+    const filters = await this.repository.manager.find(Filter, {
+      select: { id: true, stepId: true },
+      where: { id: In(filterIds) }
+    });
+    const stepOf = new Map(filters.map(f => [f.id, f.stepId]));
+
+    const details = candidates.flatMap((c, i) =>
+      c.filterId && !existing.has(c.id) && stepOf.get(c.filterId) !== c.stepId
+        ? [{ path: `${path}[${i}].filterId`, message: `${c.filterId} is not a filter of this step` }]
+        : []
+    );
+    if (details.length > 0) {
+      throw new ValidationError('Invalid filter', details);
+    }
+  }
+
+  /**
+   * Scores are stored as single-precision floats, so compare them at that precision
+   */
+  protected sameValue(field: keyof CandidateDomain, stored: unknown, submitted: unknown): boolean {
+    if (field === 'score' && typeof stored === 'number' && typeof submitted === 'number') {
+      return Math.fround(stored) === Math.fround(submitted);
+    }
+    return super.sameValue(field, stored, submitted);
   }
 
   /**
@@ -46,7 +144,7 @@ export class CandidatesRepository extends BaseRepository<Candidate, CandidateDom
    * Ordered by score (descending) to show best candidates first
    * 
    * @param stepId - Step identifier
-   * @param filters - Optional filters for status and pagination
+   * @param filters - Optional filters for status, reason, filter and pagination
    * @returns Array of candidates for the step
    */
   async findByStepId(stepId: string, filters?: CandidateFilters): Promise<CandidateDomain[]> {
@@ -61,6 +159,18 @@ export class CandidatesRepository extends BaseRepository<Candidate, CandidateDom
       });
     }
 
+    if (filters?.reason) {
+      queryBuilder.andWhere(`candidate.reason ILIKE :reason ESCAPE '\\'`, {
+        reason: containsPattern(filters.reason)
+      });
+    }
+
+    if (filters?.filterId) {
+      queryBuilder.andWhere('candidate.filterId = :filterId', {
+        filterId: filters.filterId
+      });
+    }
+
     if (filters?.limit) {
       queryBuilder.limit(filters.limit);
     }
@@ -69,6 +179,46 @@ export class CandidatesRepository extends BaseRepository<Candidate, CandidateDom
     return candidates.map(c => this.mapToDomain(c));
   }
 
+  /**
+   * Finds every recorded occurrence of a candidate across the steps of a run
+   * Each result carries its rank within the step: metadata.rank if the pipeline
+   * recorded one, otherwise its position by score among the step's captured candidates
+   * 
+   * @param runId - Run identifier
+   * @param candidateId - Candidate identifier (as supplied by the pipeline)
+   * @returns Candidate records with rank, keyed by step ID
+   */
+  async findByRunAndCandidateId(
+    runId: string,
+    candidateId: string
+  ): Promise<Map<string, CandidateDomain & { rank?: number }>> {
+    const { entities, raw } = await this.repository
+      .createQueryBuilder('candidate')
+      .innerJoin('candidate.step', 'step')
+      .where('step.runId = :runId', { runId })
+      .andWhere('candidate.candidateId = :candidateId', { candidateId })
+      .addSelect(subQuery => subQuery
+        .select('COUNT(*)')
+        .from(Candidate, 'other')
+        .where('other.step_id = candidate.step_id')
+        .andWhere('other.score > candidate.score'),
+        'higher_scored')
+      .getRawAndEntities();
+
+    const byStep = new Map<string, CandidateDomain & { rank?: number }>();
+    entities.forEach((entity, i) => {
+      const candidate = this.mapToDomain(entity);
+      const recordedRank = candidate.metadata?.rank;
+      const rank = typeof recordedRank === 'number'
+        ? recordedRank
+        : candidate.score !== undefined && candidate.score !== null
+          ? parseInt(raw[i].higher_scored, 10) + 1
+          : undefined;
+      byStep.set(candidate.stepId, { ...candidate, rank });
+    });
+    return byStep;
+  }
+
   /**
    * Maps TypeORM entity to domain model
    */
@@ -80,6 +230,7 @@ export class CandidatesRepository extends BaseRepository<Candidate, CandidateDom
       status: entity.status,
       score: entity.score,
       reason: entity.reason,
+      filterId: entity.filterId,
       data: entity.data,
       metadata: entity.metadata
     };
@@ -13,16 +13,30 @@ import { Filter as FilterDomain } from '@xray/shared';
 import { BaseRepository } from './base/BaseRepository';
 
 export class FiltersRepository extends BaseRepository<Filter, FilterDomain> {
+  protected identityFields: (keyof FilterDomain)[] = [
+    'stepId', 'filterType', 'config', 'candidatesAffected', 'candidatesRejected'
+  ];
+  protected ownerField: keyof FilterDomain = 'stepId';
+
   constructor() {
     super(AppDataSource.getRepository(Filter));
   }
 
   /**
    * Creates a new filter with auto-generated ID
-   * @param data - Filter data (id will be auto-generated)
-   * @returns Created filter
+   * A client-supplied ID makes the create idempotent: repeating it returns the stored filter
+   * @param data - Filter data (id is generated unless supplied)
+   * @param beforeInsert - Checks to run only if a new filter is inserted (e.g. that its run accepts it)
+   * @returns Created (or previously created) filter
+   * @throws ConflictError if the ID exists with different values
    */
-  async create(data: Partial<FilterDomain>): Promise<FilterDomain> {
+  async create(data: Partial<FilterDomain>, beforeInsert?: () => void): Promise<FilterDomain> {
+    const existing = await this.findExisting(data);
+    if (existing) {
+      return existing;
+    }
+    beforeInsert?.();
+
     const filterData: FilterDomain = {
       id: uuidv4(),
       stepId: data.stepId!,
@@ -34,25 +48,55 @@ export class FiltersRepository extends BaseRepository<Filter, FilterDomain> {
       ...data
     };
 
-    const entity = this.repository.create(filterData as any);
-    const saved = await this.repository.save(entity) as unknown as Filter;
-    return this.mapToDomain(saved);
+    return this.saveNew(filterData);
   }
 
   /**
-   * Finds all filters for a specific step
+   * Finds all filters for a specific step, within a project when projectId is given
    * Used to understand which filters were applied and their impact
    * 
    * @param stepId - Step identifier
-   * @returns Array of filters applied to the step
+   * @param projectId - Project the step's run must belong to
+   * @returns Array of filters applied to the step (none for another project's step)
    */
-  async findByStepId(stepId: string): Promise<FilterDomain[]> {
-    const filters = await this.repository.find({
-      where: { stepId }
-    });
+  async findByStepId(stepId: string, projectId?: string): Promise<FilterDomain[]> {
+    const queryBuilder = this.repository
+      .createQueryBuilder('filter')
+      .where('filter.stepId = :stepId', { stepId });
+
+    if (projectId) {
+      queryBuilder
+        .innerJoin('filter.step', 'step')
+        .innerJoin('step.run', 'run')
+        .andWhere('run.projectId = :projectId', { projectId });
+    }
+
+    const filters = await queryBuilder.getMany();
     return filters.map(f => this.mapToDomain(f));
   }
 
+  /**
+   * Finds filters by their identifiers, within a project
+   * 
+   * @param ids - Filter identifiers
+   * @param projectId - Project the filters' runs must belong to
+   * @returns Filters keyed by ID (unknown IDs and other projects' filters are omitted)
+   */
+  async findByIds(ids: string[], projectId: string): Promise<Map<string, FilterDomain>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const filters = await this.repository
+      .createQueryBuilder('filter')
+      .innerJoin('filter.step', 'step')
+      .innerJoin('step.run', 'run')
+      .where('filter.id IN (:...ids)', { ids })
+      .andWhere('run.projectId = :projectId', { projectId })
+      .getMany();
+    return new Map(filters.map(f => [f.id, this.mapToDomain(f)]));
+  }
+
   /**
    * Maps TypeORM entity to domain model
    */
@@ -0,0 +1,171 @@
+/**
+ * LLM Calls Repository
+ * 
+ * Handles data access for LLMCall entities.
+ * Extends BaseRepository to inherit common CRUD operations.
+ * Besides per-step lookups, supports searching calls across runs
+ * (by model, provider, prompt or completion text, pipeline, step type).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AppDataSource } from '../db/data-source';
+import { LLMCall } from '../entities/LLMCall.entity';
+import { LLMCall as LLMCallDomain } from '@xray/shared';
+import { BaseRepository, containsPattern } from './base/BaseRepository';
+import { LLMCallFilters } from './base/QueryFilters';
+
+export class LLMCallsRepository extends BaseRepository<LLMCall, LLMCallDomain> {
+  protected identityFields: (keyof LLMCallDomain)[] = [
+    'stepId', 'model', 'messages', 'completion'
+  ];
+  protected ownerField: keyof LLMCallDomain = 'stepId';
+
+  constructor() {
+    super(AppDataSource.getRepository(LLMCall));
+  }
+
+  /**
+   * Creates a new LLM call with auto-generated ID
+   * A client-supplied ID makes the create idempotent: repeating it returns the stored call
+   * @param data - LLM call data (id is generated unless supplied)
+   * @param beforeInsert - Checks to run only if a new call is inserted (e.g. that its run accepts it)
+   * @returns Created (or previously created) LLM call
+   * @throws ConflictError if the ID exists with different values
+   */
+  async create(data: Partial<LLMCallDomain>, beforeInsert?: () => void): Promise<LLMCallDomain> {
+    const existing = await this.findExisting(data);
+    if (existing) {
+      return existing;
+    }
+    beforeInsert?.();
+
+    const callData: LLMCallDomain = {
+      id: uuidv4(),
+      stepId: data.stepId!,
+      model: data.model!,
+      messages: data.messages || [],
+      startedAt: new Date(),
+      metadata: data.metadata || {},
+      ...data
+    };
+
+    if (callData.totalTokens === undefined
+      && callData.promptTokens !== undefined && callData.completionTokens !== undefined) {
+      callData.totalTokens = callData.promptTokens + callData.completionTokens;
+    }
+
+    return this.saveNew(callData);
+  }
+
+  /**
+   * Finds all LLM calls of a step, in the order they were made
+   * 
+   * @param stepId - Step identifier
+   * @returns Array of LLM calls made by the step
+   */
+  async findByStepId(stepId: string): Promise<LLMCallDomain[]> {
+    const calls = await this.repository.find({
+      where: { stepId },
+      order: { startedAt: 'ASC' }
+    });
+    return calls.map(c => this.mapToDomain(c));
+  }
+
+  /**
+   * Searches LLM calls across runs, newest first
+   * e.g. all calls to a model whose completion mentions 'laptop'
+   * 
+   * @param projectId - Only calls of this project's runs are searched
+   * @param filters - Model, provider, finish reason, text matches, pipeline, step type, run and pagination
+   * @returns Matching calls with the run and step type they belong to
+   */
+  async search(
+    projectId: string,
+    filters: LLMCallFilters = {}
+  ): Promise<(LLMCallDomain & { runId: string; stepType: string })[]> {
+    const queryBuilder = this.repository
+      .createQueryBuilder('call')
+      .innerJoin('call.step', 'step')
+      .innerJoin('step.run', 'run')
+      .addSelect(['step.id', 'step.runId', 'step.stepType'])
+      .where('run.projectId = :projectId', { projectId })
+      .orderBy('call.startedAt', 'DESC')
+      .limit(filters.limit || 100)
+      .offset(filters.offset || 0);
+
+    if (filters.model) {
+      queryBuilder.andWhere('call.model = :model', { model: filters.model });
+    }
+
+    if (filters.provider) {
+      queryBuilder.andWhere('call.provider = :provider', { provider: filters.provider });
+    }
+
+    if (filters.finishReason) {
+      queryBuilder.andWhere('call.finishReason = :finishReason', { finishReason: filters.finishReason });
+    }
+
+    if (filters.completionContains) {
+      queryBuilder.andWhere(`call.completion ILIKE :completion ESCAPE '\\'`, {
+        completion: containsPattern(filters.completionContains)
+      });
+    }
+
+    if (filters.promptContains) {
+      queryBuilder.andWhere(`"call"."messages"::text ILIKE :prompt ESCAPE '\\'`, {
+        prompt: containsPattern(filters.promptContains)
+      });
+    }
+
+    if (filters.stepType) {
+      queryBuilder.andWhere('step.stepType = :stepType', { stepType: filters.stepType });
+    }
+
+    if (filters.runId) {
+      queryBuilder.andWhere('step.runId = :runId', { runId: filters.runId });
+    }
+
+    if (filters.pipelineId) {
+      queryBuilder.andWhere('run.pipelineId = :pipelineId', { pipelineId: filters.pipelineId });
+    }
+
+    const calls = await queryBuilder.getMany();
+    return calls.map(c => ({
+      ...this.mapToDomain(c),
+      runId: c.step.runId,
+      stepType: c.step.stepType
+    }));
+  }
+
+  /**
+   * Maps TypeORM entity to domain model
+   */
+  protected mapToDomain(entity: LLMCall): LLMCallDomain {
+    return {
+      id: entity.id,
+      stepId: entity.stepId,
+      provider: entity.provider,
+      model: entity.model,
+      messages: entity.messages,
+      completion: entity.completion,
+      parameters: entity.parameters,
+      temperature: entity.temperature,
+      promptTokens: entity.promptTokens,
+      completionTokens: entity.completionTokens,
+      totalTokens: entity.totalTokens,
+      latencyMs: entity.latencyMs,
+      costUsd: entity.costUsd,
+      finishReason: entity.finishReason,
+      error: entity.error,
+      startedAt: entity.startedAt,
+      metadata: entity.metadata
+    };
+  }
+
+  /**
+   * Gets entity name for error messages
+   */
+  protected getEntityName(): string {
+    return 'LLMCall';
+  }
+}
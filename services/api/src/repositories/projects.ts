@@ -0,0 +1,78 @@
+/**
+ * Projects Repository
+ * 
+ * Handles data access for Project entities (tenants).
+ * Extends BaseRepository to inherit common CRUD operations.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AppDataSource } from '../db/data-source';
+import { ProjectEntity } from '../entities/Project.entity';
+import { Project } from '@xray/shared';
+import { BaseRepository } from './base/BaseRepository';
+
+export class ProjectsRepository extends BaseRepository<ProjectEntity, Project> {
+  protected identityFields: (keyof Project)[] = ['name'];
+
+  constructor() {
+    super(AppDataSource.getRepository(ProjectEntity));
+  }
+
+  /**
+   * Creates a new project
+   * A client-supplied ID makes the create idempotent: repeating it returns the stored project
+   * @param data - Project name (and optional ID)
+   * @returns Created (or previously created) project
+   * @throws ConflictError if the ID exists with a different name
+   */
+  async create(data: Partial<Project>): Promise<Project> {
+    const existing = await this.findExisting(data);
+    if (existing) {
+      return existing;
+    }
+
+    // After the spread, so an id given as undefined still gets one generated
+    const projectData: Project = {
+      name: data.name!,
+      createdAt: new Date(),
+      ...data,
+      id: data.id ?? uuidv4()
+    };
+
+    return this.saveNew(projectData);
+  }
+
+  /**
+   * Finds a project by its (unique) name
+   */
+  async findByName(name: string): Promise<Project | null> {
+    const project = await this.repository.findOne({ where: { name } });
+    return project ? this.mapToDomain(project) : null;
+  }
+
+  /**
+   * Lists all projects, oldest first
+   */
+  async findAll(): Promise<Project[]> {
+    const projects = await this.repository.find({ order: { createdAt: 'ASC' } });
+    return projects.map(project => this.mapToDomain(project));
+  }
+
+  /**
+   * Maps TypeORM entity to domain model
+   */
+  protected mapToDomain(entity: ProjectEntity): Project {
+    return {
+      id: entity.id,
+      name: entity.name,
+      createdAt: entity.createdAt
+    };
+  }
+
+  /**
+   * Gets entity name for error messages
+   */
+  protected getEntityName(): string {
+    return 'Project';
+  }
+}
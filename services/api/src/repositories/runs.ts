@@ -12,21 +12,34 @@ import { RunEntity } from '../entities/Run.entity';
 import { Run } from '@xray/shared';
 import { BaseRepository } from './base/BaseRepository';
 import { RunFilters } from './base/QueryFilters';
+import { RUN_UPDATABLE_FIELDS } from '../validation/schemas';
 
 export class RunsRepository extends BaseRepository<RunEntity, Run> {
+  protected identityFields: (keyof Run)[] = ['projectId', 'pipelineId', 'pipelineVersion', 'input'];
+  protected ownerField: keyof Run = 'projectId';
+  protected updatableFields: (keyof Run)[] = RUN_UPDATABLE_FIELDS;
+
   constructor() {
     super(AppDataSource.getRepository(RunEntity));
   }
 
   /**
    * Creates a new run with auto-generated ID and timestamps
-   * @param data - Run data (id and timestamps will be auto-generated)
-   * @returns Created run
+   * A client-supplied ID makes the create idempotent: repeating it returns the stored run
+   * @param data - Run data including its projectId (id and timestamps are generated unless supplied)
+   * @returns Created (or previously created) run
+   * @throws ConflictError if the ID exists in another project, or with a different pipeline or input
    */
   async create(data: Partial<Run>): Promise<Run> {
+    const existing = await this.findExisting(data);
+    if (existing) {
+      return existing;
+    }
+
     const now = new Date();
     const runData: Run = {
       id: uuidv4(),
+      projectId: data.projectId!,
       pipelineId: data.pipelineId!,
       pipelineVersion: data.pipelineVersion,
       status: data.status || 'running',
@@ -36,20 +49,36 @@ export class RunsRepository extends BaseRepository<RunEntity, Run> {
       ...data
     };
 
-    const entity = this.repository.create(runData as any);
-    const saved = await this.repository.save(entity) as unknown as RunEntity;
-    return this.mapToDomain(saved);
+    return this.saveNew(runData);
+  }
+
+  /**
+   * Finds a run by ID, within a project when projectId is given
+   * A run of another project is reported as missing
+   * 
+   * @param id - Run identifier
+   * @param projectId - Project the run must belong to
+   * @returns Run or null if not found
+   */
+  async findById(id: string, projectId?: string): Promise<Run | null> {
+    const run = await this.repository.findOne({
+      where: projectId ? { id, projectId } : { id }
+    });
+    return run ? this.mapToDomain(run) : null;
   }
 
   /**
-   * Finds all runs with optional filters
+   * Finds all runs of a project with optional filters
    * Uses query builder for flexible filtering and pagination
    * 
+   * @param projectId - Project whose runs are listed
    * @param filters - Optional filters for pipeline, status, pagination
    * @returns Array of runs matching the filters
    */
-  async findAll(filters?: RunFilters): Promise<Run[]> {
-    const queryBuilder = this.repository.createQueryBuilder('run');
+  async findAll(projectId: string, filters?: RunFilters): Promise<Run[]> {
+    const queryBuilder = this.repository
+      .createQueryBuilder('run')
+      .where('run.projectId = :projectId', { projectId });
 
     if (filters?.pipelineId) {
       queryBuilder.andWhere('run.pipelineId = :pipelineId', {
@@ -76,6 +105,80 @@ export class RunsRepository extends BaseRepository<RunEntity, Run> {
     return runs.map(run => this.mapToDomain(run));
   }
 
+  /**
+   * Records a heartbeat for a running run
+   *
+   * @param id - Run identifier
+   * @returns The run with its new lastHeartbeatAt, or null if it is not running (or missing)
+   */
+  async recordHeartbeat(id: string): Promise<Run | null> {
+    const result = await this.repository.update({ id, status: 'running' }, { lastHeartbeatAt: new Date() });
+    return (result.affected ?? 0) > 0 ? this.findById(id) : null;
+  }
+
+  /**
+   * Finds running runs, across all projects, with no activity since a cutoff
+   * Activity is the run's start, its last heartbeat (refreshed by candidate and
+   * filter writes too), and the start or completion of any of its steps or their
+   * LLM calls; the least recently active come first
+   *
+   * @param cutoff - Runs last active before this are returned
+   * @param pipelines - Only these pipelines (include) or all but these (exclude)
+   * @param limit - Maximum number of runs
+   * @returns Runs with the time they were last active
+   */
+  async findInactive(
+    cutoff: Date,
+    pipelines: { include?: string[]; exclude?: string[] },
+    limit: number
+  ): Promise<{ run: Run; lastActivityAt: Date }[]> {
+    // No pipeline to include matches no run (and "IN ()" is not valid SQL)
+    if (pipelines.include?.length === 0) {
+      return [];
+    }
+
+    // GREATEST skips NULLs, so runs without steps or heartbeats fall back to startedAt
+    const lastActivity = `GREATEST(run.started_at, run.last_heartbeat_at, (
+      SELECT MAX(GREATEST(step.started_at, step.completed_at, llm_call.started_at))
+      FROM steps step LEFT JOIN llm_calls llm_call ON llm_call.step_id = step.id
+      WHERE step.run_id = run.id
+    ))`;
+
+    const queryBuilder = this.repository
+      .createQueryBuilder('run')
+      .addSelect(lastActivity, 'last_activity_at')
+      .where('run.status = :status', { status: 'running' })
+      .andWhere(`${lastActivity} < :cutoff`, { cutoff });
+
+    if (pipelines.include) {
+      queryBuilder.andWhere('run.pipelineId IN (:...include)', { include: pipelines.include });
+    }
+    if (pipelines.exclude?.length) {
+      queryBuilder.andWhere('run.pipelineId NOT IN (:...exclude)', { exclude: pipelines.exclude });
+    }
+
+    const { entities, raw } = await queryBuilder
+      .orderBy('last_activity_at', 'ASC')
+      .limit(limit)
+      .getRawAndEntities();
+
+    return entities.map((entity, i) => ({
+      run: this.mapToDomain(entity),
+      lastActivityAt: new Date(raw[i].last_activity_at)
+    }));
+  }
+
+  /**
+   * Deletes a run; its steps, candidates, filters and LLM calls go with it (ON DELETE CASCADE)
+   * 
+   * @param id - Run identifier
+   * @returns Whether a run was deleted
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await this.repository.delete(id);
+    return (result.affected ?? 0) > 0;
+  }
+
   /**
    * Maps TypeORM entity to domain model
    * Separates persistence layer from domain layer
@@ -83,6 +186,7 @@ export class RunsRepository extends BaseRepository<RunEntity, Run> {
   protected mapToDomain(entity: RunEntity): Run {
     return {
       id: entity.id,
+      projectId: entity.projectId,
       pipelineId: entity.pipelineId,
       pipelineVersion: entity.pipelineVersion,
       status: entity.status,
@@ -91,7 +195,9 @@ export class RunsRepository extends BaseRepository<RunEntity, Run> {
       metadata: entity.metadata,
       input: entity.input,
       output: entity.output,
-      error: entity.error
+      error: entity.error,
+      sampleRate: entity.sampleRate,
+      lastHeartbeatAt: entity.lastHeartbeatAt
     };
   }
 
@@ -9,21 +9,46 @@
 import { v4 as uuidv4 } from 'uuid';
 import { AppDataSource } from '../db/data-source';
 import { Step } from '../entities/Step.entity';
-import { Step as StepDomain } from '@xray/shared';
+import { Step as StepDomain, StepTreeNode } from '@xray/shared';
 import { BaseRepository } from './base/BaseRepository';
-import { StepFilters } from './base/QueryFilters';
+import { StepFilters, StepViewOptions } from './base/QueryFilters';
+import { STEP_UPDATABLE_FIELDS } from '../validation/schemas';
+import { ValidationError } from './base/errors';
 
 export class StepsRepository extends BaseRepository<Step, StepDomain> {
+  protected identityFields: (keyof StepDomain)[] = [
+    'runId', 'parentStepId', 'stepType', 'stepIndex', 'input', 'config'
+  ];
+  protected ownerField: keyof StepDomain = 'runId';
+  protected updatableFields: (keyof StepDomain)[] = STEP_UPDATABLE_FIELDS;
+
   constructor() {
     super(AppDataSource.getRepository(Step));
   }
 
   /**
    * Creates a new step with auto-generated ID and timestamps
-   * @param data - Step data (id and timestamps will be auto-generated)
-   * @returns Created step
+   * A client-supplied ID makes the create idempotent: repeating it returns the stored step
+   * @param data - Step data (id and timestamps are generated unless supplied)
+   * @param beforeInsert - Checks to run only if a new step is inserted (e.g. that its run accepts it)
+   * @returns Created (or previously created) step
+   * @throws ConflictError if the ID exists with a different run, position, input or config
+   * @throws ValidationError if parentStepId is not a step of the same run
    */
-  async create(data: Partial<StepDomain>): Promise<StepDomain> {
+  async create(data: Partial<StepDomain>, beforeInsert?: () => void): Promise<StepDomain> {
+    const existing = await this.findExisting(data);
+    if (existing) {
+      return existing;
+    }
+    beforeInsert?.();
+
+    // The run is already scoped to the caller's project, so a parent in the same run is too
+    if (data.parentStepId && await this.repository.count({ where: { id: data.parentStepId, runId: data.runId } }) === 0) {
+      throw new ValidationError('Invalid parent step', [
+        { path: 'parentStepId', message: `is not a step of run ${data.runId}` }
+      ]);
+    }
+
     const now = new Date();
     const stepData: StepDomain = {
       id: uuidv4(),
@@ -40,9 +65,7 @@ export class StepsRepository extends BaseRepository<Step, StepDomain> {
       ...data
     };
 
-    const entity = this.repository.create(stepData as any);
-    const saved = await this.repository.save(entity) as unknown as Step;
-    return this.mapToDomain(saved);
+    return this.saveNew(stepData);
   }
 
   /**
@@ -50,28 +73,59 @@ export class StepsRepository extends BaseRepository<Step, StepDomain> {
    * Ordered by step index to maintain execution order
    * 
    * @param runId - Run identifier
-   * @returns Array of steps ordered by execution order
+   * @param options - nested: return root steps with sub-steps as children
+   * @returns Flat array of steps, or the step tree when nested
    */
-  async findByRunId(runId: string): Promise<StepDomain[]> {
+  async findByRunId(runId: string, options?: { nested?: false }): Promise<StepDomain[]>;
+  async findByRunId(runId: string, options: { nested: true }): Promise<StepTreeNode[]>;
+  async findByRunId(runId: string, options?: StepViewOptions): Promise<StepDomain[] | StepTreeNode[]>;
+  async findByRunId(runId: string, options?: StepViewOptions): Promise<StepDomain[] | StepTreeNode[]> {
     const steps = await this.repository.find({
       where: { runId },
       order: { stepIndex: 'ASC' }
     });
-    return steps.map(step => this.mapToDomain(step));
+    const domainSteps = steps.map(step => this.mapToDomain(step));
+    return options?.nested ? this.buildTree(domainSteps) : domainSteps;
   }
 
   /**
-   * Finds steps by their type across all runs
+   * Finds a step by ID, within a project when projectId is given
+   * A step of another project's run is reported as missing
+   * 
+   * @param id - Step identifier
+   * @param projectId - Project the step's run must belong to
+   * @returns Step or null if not found
+   */
+  async findById(id: string, projectId?: string): Promise<StepDomain | null> {
+    const queryBuilder = this.repository
+      .createQueryBuilder('step')
+      .where('step.id = :id', { id });
+
+    if (projectId) {
+      queryBuilder
+        .innerJoin('step.run', 'run')
+        .andWhere('run.projectId = :projectId', { projectId });
+    }
+
+    const step = await queryBuilder.getOne();
+    return step ? this.mapToDomain(step) : null;
+  }
+
+  /**
+   * Finds steps by their type across all runs of a project
    * Useful for cross-pipeline queries
    * 
+   * @param projectId - Project whose runs are searched
    * @param stepType - Type of step to find (e.g., 'filtering', 'ranking')
    * @param filters - Optional pagination filters
    * @returns Array of steps of the specified type
    */
-  async findByStepType(stepType: string, filters?: StepFilters): Promise<StepDomain[]> {
+  async findByStepType(projectId: string, stepType: string, filters?: StepFilters): Promise<StepDomain[]> {
     const queryBuilder = this.repository
       .createQueryBuilder('step')
-      .where('step.stepType = :stepType', { stepType })
+      .innerJoin('step.run', 'run')
+      .where('run.projectId = :projectId', { projectId })
+      .andWhere('step.stepType = :stepType', { stepType })
       .orderBy('step.startedAt', 'DESC');
 
     if (filters?.limit) {
@@ -89,13 +143,16 @@ export class StepsRepository extends BaseRepository<Step, StepDomain> {
    * Finds filtering steps that eliminated a high percentage of candidates
    * Used for debugging and analytics queries
    * 
+   * @param projectId - Project whose runs are searched
    * @param threshold - Elimination threshold (default 0.9 = 90%)
    * @returns Array of filtering steps that eliminated more than threshold
    */
-  async findFilteringStepsWithHighElimination(threshold: number = 0.9): Promise<StepDomain[]> {
+  async findFilteringStepsWithHighElimination(projectId: string, threshold: number = 0.9): Promise<StepDomain[]> {
     const steps = await this.repository
       .createQueryBuilder('step')
-      .where('step.stepType = :stepType', { stepType: 'filtering' })
+      .innerJoin('step.run', 'run')
+      .where('run.projectId = :projectId', { projectId })
+      .andWhere('step.stepType = :stepType', { stepType: 'filtering' })
       .andWhere('step.inputCount > 0')
       .andWhere('(CAST(step.outputCount AS FLOAT) / CAST(step.inputCount AS FLOAT)) < :threshold', {
         threshold
@@ -106,6 +163,59 @@ export class StepsRepository extends BaseRepository<Step, StepDomain> {
     return steps.map(step => this.mapToDomain(step));
   }
 
+  /**
+   * Nests steps under their parents and marks overlapping siblings
+   * Steps whose parent is not part of the run are treated as roots
+   * 
+   * @param steps - Flat steps ordered by step index
+   * @returns Root steps with children populated
+   */
+  private buildTree(steps: StepDomain[]): StepTreeNode[] {
+    const nodes = new Map<string, StepTreeNode>();
+    for (const step of steps) {
+      nodes.set(step.id, { ...step, children: [], concurrentWith: [] });
+    }
+
+    const roots: StepTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentStepId ? nodes.get(node.parentStepId) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    this.markConcurrentSiblings(roots);
+    for (const node of nodes.values()) {
+      this.markConcurrentSiblings(node.children);
+    }
+
+    return roots;
+  }
+
+  /**
+   * Records, for each sibling, which other siblings ran at the same time
+   * A step still running is treated as open-ended
+   */
+  private markConcurrentSiblings(siblings: StepTreeNode[]): void {
+    const interval = (step: StepTreeNode) => ({
+      start: new Date(step.startedAt).getTime(),
+      end: step.completedAt ? new Date(step.completedAt).getTime() : Infinity
+    });
+
+    for (let i = 0; i < siblings.length; i++) {
+      for (let j = i + 1; j < siblings.length; j++) {
+        const a = interval(siblings[i]);
+        const b = interval(siblings[j]);
+        if (a.start < b.end && b.start < a.end) {
+          siblings[i].concurrentWith.push(siblings[j].id);
+          siblings[j].concurrentWith.push(siblings[i].id);
+        }
+      }
+    }
+  }
+
   /**
    * Maps TypeORM entity to domain model
    */
@@ -113,6 +223,7 @@ export class StepsRepository extends BaseRepository<Step, StepDomain> {
     return {
       id: entity.id,
       runId: entity.runId,
+      parentStepId: entity.parentStepId,
       stepType: entity.stepType,
       stepIndex: entity.stepIndex,
       status: entity.status,
@@ -127,7 +238,8 @@ export class StepsRepository extends BaseRepository<Step, StepDomain> {
       durationMs: entity.durationMs,
       error: entity.error,
       metadata: entity.metadata,
-      captureAllCandidates: entity.captureAllCandidates
+      captureAllCandidates: entity.captureAllCandidates,
+      candidateSummary: entity.candidateSummary
     };
   }
 
@@ -0,0 +1,132 @@
+/**
+ * Admin Routes
+ *
+ * Project and API key management, guarded by the operator token
+ * (API_ADMIN_TOKEN) rather than by an API key.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { ProjectsRepository } from '../repositories/projects';
+import { ApiKeysRepository } from '../repositories/apiKeys';
+import { NotFoundError } from '../repositories/base/errors';
+import { HttpError } from '../middleware/errors';
+import { assertValid } from '../validation/schema';
+import { projectSchema, apiKeySchema, API_KEY_UPDATABLE_FIELDS } from '../validation/schemas';
+import { ApiKey } from '@xray/shared';
+
+const router = Router();
+
+const projectsRepo = new ProjectsRepository();
+const apiKeysRepo = new ApiKeysRepository();
+
+/**
+ * POST /api/admin/projects
+ * Creates a project; names are unique
+ */
+router.post('/projects', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, name } = assertValid(req.body, projectSchema);
+
+    const existing = await projectsRepo.findByName(name);
+    if (existing && existing.id !== id) {
+      throw new HttpError(409, 'conflict', `Project ${name} already exists`, [{ path: 'name', message: 'is taken' }]);
+    }
+
+    const project = await projectsRepo.create({ id, name });
+    res.status(201).json(project);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/admin/projects
+ * Lists all projects
+ */
+router.get('/projects', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const projects = await projectsRepo.findAll();
+    res.json(projects);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/admin/projects/:projectId/keys
+ * Issues an API key for a project: { name, roles: ['reader' | 'writer' | 'admin', ...] }
+ * The response is the only place the key itself appears; only its hash is stored
+ */
+router.post('/projects/:projectId/keys', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, roles } = assertValid(req.body, apiKeySchema);
+    const project = await projectsRepo.findById(req.params.projectId);
+
+    if (!project) {
+      throw new NotFoundError('Project', req.params.projectId);
+    }
+
+    const { apiKey, key } = await apiKeysRepo.issue(project.id, name, roles);
+    res.status(201).json({ ...apiKey, key });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/admin/projects/:projectId/keys
+ * Lists a project's keys (prefix and usage only), revoked keys included
+ */
+router.get('/projects/:projectId/keys', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const project = await projectsRepo.findById(req.params.projectId);
+
+    if (!project) {
+      throw new NotFoundError('Project', req.params.projectId);
+    }
+
+    const keys = await apiKeysRepo.findByProjectId(project.id);
+    res.json(keys);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/admin/keys/:keyId
+ * Replaces a key's roles: { roles: [...] }
+ */
+router.patch('/keys/:keyId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { roles } = assertValid<Pick<ApiKey, 'roles'>>(req.body, apiKeySchema, { writable: API_KEY_UPDATABLE_FIELDS });
+    const apiKey = await apiKeysRepo.setRoles(req.params.keyId, roles);
+
+    if (!apiKey) {
+      throw new NotFoundError('ApiKey', req.params.keyId);
+    }
+
+    res.json(apiKey);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/admin/keys/:keyId
+ * Revokes a key; requests using it are rejected from then on
+ */
+router.delete('/keys/:keyId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const apiKey = await apiKeysRepo.revoke(req.params.keyId);
+
+    if (!apiKey) {
+      throw new NotFoundError('ApiKey', req.params.keyId);
+    }
+
+    res.json(apiKey);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,50 @@
+/**
+ * Event Routes
+ *
+ * Batch ingestion endpoint used by the SDK's buffered transport.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { RunsRepository } from '../repositories/runs';
+import { StepsRepository } from '../repositories/steps';
+import { CandidatesRepository } from '../repositories/candidates';
+import { FiltersRepository } from '../repositories/filters';
+import { LLMCallsRepository } from '../repositories/llmCalls';
+import { EventIngestService } from '../services/events';
+import { lifecycleOptionsFromEnv } from '../services/lifecycle';
+import { requireProject, requirePermission } from '../middleware/auth';
+import { HttpError } from '../middleware/errors';
+
+const router = Router();
+
+const eventService = new EventIngestService(
+  new RunsRepository(),
+  new StepsRepository(),
+  new CandidatesRepository(),
+  new FiltersRepository(),
+  new LLMCallsRepository(),
+  lifecycleOptionsFromEnv()
+);
+
+/**
+ * POST /api/events
+ * Applies a batch of events (createRun, updateRun, createStep, updateStep,
+ * createCandidates, createFilter, createLLMCall) in order, in the caller's project
+ * Responds 200 with one result per event; failed events do not stop the batch
+ */
+router.post('/', requirePermission('write'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { events } = req.body;
+
+    if (!Array.isArray(events)) {
+      throw new HttpError(400, 'invalid_request', 'events must be an array', [{ path: 'events', message: 'must be an array' }]);
+    }
+
+    const results = await eventService.applyBatch(events, requireProject(req));
+    res.json({ results });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
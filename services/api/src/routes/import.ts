@@ -0,0 +1,55 @@
+/**
+ * Import Routes
+ *
+ * Uploads of newline-delimited JSON event files recorded without access to
+ * the API (the SDK's file transport or a leftover spool).
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import * as readline from 'readline';
+import { RunsRepository } from '../repositories/runs';
+import { StepsRepository } from '../repositories/steps';
+import { CandidatesRepository } from '../repositories/candidates';
+import { FiltersRepository } from '../repositories/filters';
+import { LLMCallsRepository } from '../repositories/llmCalls';
+import { EventIngestService } from '../services/events';
+import { lifecycleOptionsFromEnv } from '../services/lifecycle';
+import { EventImportService } from '../services/import';
+import { payloadLimitsFromEnv } from '../middleware/payloadLimits';
+import { requireProject, requirePermission } from '../middleware/auth';
+import { HttpError } from '../middleware/errors';
+
+const router = Router();
+
+const importService = new EventImportService(new EventIngestService(
+  new RunsRepository(),
+  new StepsRepository(),
+  new CandidatesRepository(),
+  new FiltersRepository(),
+  new LLMCallsRepository(),
+  lifecycleOptionsFromEnv()
+), payloadLimitsFromEnv());
+
+/**
+ * POST /api/import
+ * Body: the event file itself (Content-Type: application/x-ndjson), one event per line
+ * The body is streamed, so files are not subject to the JSON body limit
+ * Runs are created in the caller's project
+ * Responds 200 with { events, applied, failed, errors }; importing the same
+ * file again applies nothing new
+ */
+router.post('/', requirePermission('write'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.is(['application/x-ndjson', 'application/jsonl', 'text/plain'])) {
+      throw new HttpError(415, 'unsupported_media_type', 'Send the event file as Content-Type: application/x-ndjson');
+    }
+
+    const lines = readline.createInterface({ input: req, crlfDelay: Infinity });
+    const result = await importService.import(lines, requireProject(req));
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
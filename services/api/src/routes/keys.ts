@@ -0,0 +1,92 @@
+/**
+ * API Key Routes
+ *
+ * Lets a project's admins manage the project's own keys (caller identities)
+ * and their roles. All routes need the 'admin' permission; keys of other
+ * projects are 404.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { ApiKeysRepository } from '../repositories/apiKeys';
+import { NotFoundError } from '../repositories/base/errors';
+import { requireProject, requirePermission } from '../middleware/auth';
+import { assertValid } from '../validation/schema';
+import { apiKeySchema, API_KEY_UPDATABLE_FIELDS } from '../validation/schemas';
+import { ApiKey } from '@xray/shared';
+
+const router = Router();
+
+const apiKeysRepo = new ApiKeysRepository();
+
+router.use(requirePermission('admin'));
+
+/**
+ * The caller's project's key with this ID
+ * @throws NotFoundError if it does not exist or belongs to another project
+ */
+async function findProjectKey(req: Request): Promise<ApiKey> {
+  const apiKey = await apiKeysRepo.findById(req.params.keyId);
+  if (!apiKey || apiKey.projectId !== requireProject(req)) {
+    throw new NotFoundError('ApiKey', req.params.keyId);
+  }
+  return apiKey;
+}
+
+/**
+ * GET /api/keys
+ * Lists the project's keys, revoked keys included
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const keys = await apiKeysRepo.findByProjectId(requireProject(req));
+    res.json(keys);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/keys
+ * Issues a key for the project: { name, roles: ['reader' | 'writer' | 'admin', ...] }
+ * The response is the only place the key itself appears
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, roles } = assertValid(req.body, apiKeySchema);
+    const { apiKey, key } = await apiKeysRepo.issue(requireProject(req), name, roles);
+    res.status(201).json({ ...apiKey, key });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/keys/:keyId
+ * Replaces a key's roles: { roles: [...] }
+ */
+router.patch('/:keyId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { roles } = assertValid<Pick<ApiKey, 'roles'>>(req.body, apiKeySchema, { writable: API_KEY_UPDATABLE_FIELDS });
+    const existing = await findProjectKey(req);
+    const apiKey = await apiKeysRepo.setRoles(existing.id, roles);
+    res.json(apiKey);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/keys/:keyId
+ * Revokes a key; requests using it are rejected from then on
+ */
+router.delete('/:keyId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const existing = await findProjectKey(req);
+    const apiKey = await apiKeysRepo.revoke(existing.id);
+    res.json(apiKey);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,36 @@
+/**
+ * LLM Call Routes
+ *
+ * Cross-run queries over recorded model calls. Calls are recorded per step
+ * (POST /api/steps/:stepId/llm-calls) and returned with their step.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { LLMCallsRepository } from '../repositories/llmCalls';
+import { requireProject, requirePermission } from '../middleware/auth';
+import { parseQuery } from '../validation/schema';
+import { llmCallQuerySchema } from '../validation/schemas';
+
+const router = Router();
+
+const llmCallsRepo = new LLMCallsRepository();
+
+/**
+ * GET /api/llm-calls
+ * Searches LLM calls across the caller's runs, newest first
+ * e.g. ?model=gpt-4o&completionContains=laptop
+ * completionContains and promptContains match case-insensitive substrings;
+ * the other filters match exactly
+ */
+router.get('/', requirePermission('read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const filters = parseQuery(req.query, llmCallQuerySchema);
+    const calls = await llmCallsRepo.search(requireProject(req), filters);
+
+    res.json(calls);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
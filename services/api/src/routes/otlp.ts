@@ -0,0 +1,66 @@
+/**
+ * OTLP Routes
+ *
+ * OpenTelemetry trace ingestion (OTLP/HTTP, JSON encoding). Point an OTel
+ * exporter or collector at {API_URL}/v1/traces to turn spans with X-Ray
+ * attributes into runs and steps.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { RunsRepository } from '../repositories/runs';
+import { StepsRepository } from '../repositories/steps';
+import { CandidatesRepository } from '../repositories/candidates';
+import { FiltersRepository } from '../repositories/filters';
+import { LLMCallsRepository } from '../repositories/llmCalls';
+import { EventIngestService } from '../services/events';
+import { lifecycleOptionsFromEnv } from '../services/lifecycle';
+import { OtlpIngestService } from '../services/otlp';
+import { requireProject, requirePermission } from '../middleware/auth';
+import { HttpError } from '../middleware/errors';
+
+const router = Router();
+
+const otlpService = new OtlpIngestService(new EventIngestService(
+  new RunsRepository(),
+  new StepsRepository(),
+  new CandidatesRepository(),
+  new FiltersRepository(),
+  new LLMCallsRepository(),
+  lifecycleOptionsFromEnv()
+));
+
+/**
+ * POST /v1/traces
+ * Accepts an ExportTraceServiceRequest; spans without X-Ray attributes are ignored
+ * Runs are created in the project of the exporter's API key (Authorization header)
+ * Responds 200 with an ExportTraceServiceResponse; spans that could not be
+ * stored are counted in partialSuccess.rejectedSpans
+ */
+router.post('/', requirePermission('write'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.is('application/json')) {
+      throw new HttpError(415, 'unsupported_media_type', 'Only the OTLP JSON encoding (Content-Type: application/json) is supported');
+    }
+
+    if (!Array.isArray(req.body?.resourceSpans)) {
+      throw new HttpError(400, 'invalid_request', 'resourceSpans must be an array', [
+        { path: 'resourceSpans', message: 'must be an array' }
+      ]);
+    }
+
+    const result = await otlpService.ingest(req.body, requireProject(req));
+    if (result.rejected.length > 0) {
+      return res.json({
+        partialSuccess: {
+          rejectedSpans: result.rejected.length,
+          errorMessage: result.rejected.map(r => r.error).join('; ')
+        }
+      });
+    }
+    res.json({});
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
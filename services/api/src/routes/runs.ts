@@ -4,13 +4,28 @@
  * Handles HTTP requests for Run resources.
  * Follows Single Responsibility Principle - only handles routing logic.
  * Delegates business logic to repositories (Separation of Concerns).
+ * Every route is scoped to the caller's project; runs of other projects are 404.
+ * Reads need the 'read' permission, writes 'write' and deletion 'admin'.
+ * Bodies and query strings are checked against their schemas, and status
+ * changes against the run lifecycle; errors go to the central error handler.
  */
 
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { RunsRepository } from '../repositories/runs';
 import { StepsRepository } from '../repositories/steps';
 import { CandidatesRepository } from '../repositories/candidates';
 import { FiltersRepository } from '../repositories/filters';
+import { LLMCallsRepository } from '../repositories/llmCalls';
+import { NotFoundError } from '../repositories/base/errors';
+import { JourneyService } from '../services/journey';
+import { ExplainService } from '../services/explain';
+import { BulkIngestService } from '../services/bulk';
+import { LifecycleService, lifecycleOptionsFromEnv } from '../services/lifecycle';
+import { AppDataSource } from '../db/data-source';
+import { requireProject, requirePermission } from '../middleware/auth';
+import { assertValid, parseQuery } from '../validation/schema';
+import { runSchema, runQuerySchema, RUN_UPDATABLE_FIELDS } from '../validation/schemas';
+import { Run, Step, StepTreeNode } from '@xray/shared';
 
 const router = Router();
 
@@ -18,99 +33,213 @@ const runsRepo = new RunsRepository();
 const stepsRepo = new StepsRepository();
 const candidatesRepo = new CandidatesRepository();
 const filtersRepo = new FiltersRepository();
+const llmCallsRepo = new LLMCallsRepository();
+const journeyService = new JourneyService(stepsRepo, candidatesRepo, filtersRepo);
+const explainService = new ExplainService(stepsRepo, candidatesRepo, filtersRepo);
+const bulkService = new BulkIngestService(AppDataSource, runsRepo, stepsRepo, filtersRepo, candidatesRepo);
+const lifecycle = new LifecycleService(runsRepo, stepsRepo, lifecycleOptionsFromEnv());
 
 /**
  * POST /api/runs
  * Creates a new run
+ * With a client-supplied id, repeating the request returns the stored run;
+ * a different payload for the same id is rejected with 409
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requirePermission('write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const run = await runsRepo.create(req.body);
+    const data = assertValid(req.body, runSchema);
+    lifecycle.checkNewRun(data);
+    const run = await runsRepo.create({ ...data, projectId: requireProject(req) });
     res.status(201).json(run);
-  } catch (error: any) {
-    res.status(400).json({
-      error: error.message || 'Failed to create run'
-    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/runs/bulk
+ * Creates a run with its steps, sub-steps, candidates and filters in one transaction
+ * The whole tree is validated first; any error rejects it (422, every problem
+ * listed by path) without writing anything
+ * Returns the IDs of everything stored, in the payload's shape; repeating a
+ * payload whose IDs are all supplied returns them without storing anything
+ */
+router.post('/bulk', requirePermission('write'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await bulkService.ingest(req.body, requireProject(req));
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
   }
 });
 
+/**
+ * Attaches candidates (top 100), filters and LLM calls to a step
+ * Recurses into sub-steps when given a step tree node
+ */
+async function withDetails(step: Step | StepTreeNode): Promise<Record<string, any>> {
+  const [candidates, filters, llmCalls, children] = await Promise.all([
+    candidatesRepo.findByStepId(step.id, { limit: 100 }),
+    filtersRepo.findByStepId(step.id),
+    llmCallsRepo.findByStepId(step.id),
+    'children' in step ? Promise.all(step.children.map(withDetails)) : undefined
+  ]);
+
+  return {
+    ...step,
+    ...(children ? { children } : {}),
+    candidates,
+    filters,
+    llmCalls
+  };
+}
+
 /**
  * GET /api/runs/:id
- * Gets a run by ID with all related steps, candidates, and filters
+ * Gets a run by ID with all related steps, candidates, filters and LLM calls
+ * Steps are returned as a tree (sub-steps under children, overlapping
+ * siblings listed in concurrentWith); pass view=flat for a flat list
  */
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', requirePermission('read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const run = await runsRepo.findById(req.params.id);
+    const run = await runsRepo.findById(req.params.id, requireProject(req));
 
     if (!run) {
-      return res.status(404).json({ error: 'Run not found' });
+      throw new NotFoundError('Run', req.params.id);
     }
 
-    const steps = await stepsRepo.findByRunId(run.id);
-
-    const stepsWithDetails = await Promise.all(
-      steps.map(async (step) => {
-        const [candidates, filters] = await Promise.all([
-          candidatesRepo.findByStepId(step.id, { limit: 100 }),
-          filtersRepo.findByStepId(step.id)
-        ]);
+    const steps = await stepsRepo.findByRunId(run.id, {
+      nested: req.query.view !== 'flat'
+    });
 
-        return {
-          ...step,
-          candidates,
-          filters
-        };
-      })
-    );
+    const stepsWithDetails = await Promise.all(steps.map(withDetails));
 
     res.json({
       ...run,
       steps: stepsWithDetails
     });
-  } catch (error: any) {
-    console.error('Error fetching run:', error);
-    res.status(500).json({
-      error: error.message || 'Internal server error'
-    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/runs/:id/candidates/:candidateId/journey
+ * Traces one candidate through every step of a run: status, score, rank,
+ * reason and filter at each step, plus the step where it was first dropped
+ */
+router.get('/:id/candidates/:candidateId/journey', requirePermission('read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const projectId = requireProject(req);
+    const run = await runsRepo.findById(req.params.id, projectId);
+
+    if (!run) {
+      throw new NotFoundError('Run', req.params.id);
+    }
+
+    const journey = await journeyService.getJourney(run.id, req.params.candidateId, projectId);
+
+    if (!journey.steps.some(step => step.captured)) {
+      throw new NotFoundError('Candidate', req.params.candidateId);
+    }
+
+    res.json(journey);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/runs/:id/candidates/:candidateId/why-not
+ * Explains why an expected candidate was not selected: the first step that
+ * rejected, lost or outranked it, the filter responsible, the score gap to
+ * the winner, and whether sampling may have hidden it
+ */
+router.get('/:id/candidates/:candidateId/why-not', requirePermission('read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const projectId = requireProject(req);
+    const run = await runsRepo.findById(req.params.id, projectId);
+
+    if (!run) {
+      throw new NotFoundError('Run', req.params.id);
+    }
+
+    const explanation = await explainService.explainWhyNot(run.id, req.params.candidateId, projectId);
+    res.json(explanation);
+  } catch (error) {
+    next(error);
   }
 });
 
 /**
  * GET /api/runs
- * Lists runs with optional filters
+ * Lists runs with optional filters (pipelineId, status, limit, offset)
+ * status=abandoned lists the runs the stuck-run sweeper gave up on
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', requirePermission('read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { pipelineId, status, limit, offset } = req.query;
+    const filters = parseQuery(req.query, runQuerySchema);
+    const runs = await runsRepo.findAll(requireProject(req), filters);
 
-    const runs = await runsRepo.findAll({
-      pipelineId: pipelineId as string,
-      status: status as 'running' | 'completed' | 'failed' | undefined,
-      limit: limit ? parseInt(limit as string) : undefined,
-      offset: offset ? parseInt(offset as string) : undefined
-    });
-    
     res.json(runs);
-  } catch (error: any) {
-    console.error('Error listing runs:', error);
-    res.status(500).json({
-      error: error.message || 'Internal server error'
-    });
+  } catch (error) {
+    next(error);
   }
 });
 
 /**
  * PATCH /api/runs/:id
  * Updates a run (typically to mark as completed or failed)
+ * Only RUN_UPDATABLE_FIELDS may be sent; a run cannot be moved to another project
+ * A finished run cannot change (409 with its current state), except that
+ * repeating the update that finished it is accepted
  */
-router.patch('/:id', async (req: Request, res: Response) => {
+router.patch('/:id', requirePermission('write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const run = await runsRepo.update(req.params.id, req.body);
-    res.json(run);
-  } catch (error: any) {
-    res.status(400).json({
-      error: error.message || 'Failed to update run'
-    });
+    const updates = assertValid<Partial<Run>>(req.body, runSchema, { partial: true, writable: RUN_UPDATABLE_FIELDS });
+    const run = await runsRepo.findById(req.params.id, requireProject(req));
+    if (!run) {
+      throw new NotFoundError('Run', req.params.id);
+    }
+
+    res.json(await lifecycle.updateRun(run, updates));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/runs/:id/heartbeat
+ * Reports a running run as alive, so the stuck-run sweeper does not abandon it
+ * while it is slow; a finished run is 409 with its current state
+ */
+router.post('/:id/heartbeat', requirePermission('write'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = await runsRepo.findById(req.params.id, requireProject(req));
+    if (!run) {
+      throw new NotFoundError('Run', req.params.id);
+    }
+
+    res.json(await lifecycle.recordHeartbeat(run));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/runs/:id
+ * Deletes a run with its steps, candidates, filters and LLM calls
+ */
+router.delete('/:id', requirePermission('admin'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!(await runsRepo.findById(req.params.id, requireProject(req)))) {
+      throw new NotFoundError('Run', req.params.id);
+    }
+
+    await runsRepo.delete(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -3,80 +3,117 @@
  * 
  * Handles HTTP requests for Step resources.
  * Follows Single Responsibility Principle - only handles routing logic.
+ * Every route is scoped to the caller's project; steps of other projects are 404.
+ * Reads need the 'read' permission and writes 'write'.
+ * Bodies and query strings are checked against their schemas, and writes
+ * against the run and step lifecycle; errors go to the central error handler.
  */
 
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import { RunsRepository } from '../repositories/runs';
 import { StepsRepository } from '../repositories/steps';
 import { CandidatesRepository } from '../repositories/candidates';
 import { FiltersRepository } from '../repositories/filters';
-import { Candidate } from '@xray/shared';
+import { LLMCallsRepository } from '../repositories/llmCalls';
+import { NotFoundError } from '../repositories/base/errors';
+import { LifecycleService, lifecycleOptionsFromEnv } from '../services/lifecycle';
+import { requireProject, requirePermission } from '../middleware/auth';
+import { assertValid, parseQuery } from '../validation/schema';
+import {
+  stepSchema, candidatesSchema, filterSchema, llmCallSchema, STEP_UPDATABLE_FIELDS,
+  stepQuerySchema, candidateQuerySchema, highEliminationQuerySchema
+} from '../validation/schemas';
+import { Run, Step } from '@xray/shared';
 
 const router = Router();
 
+const runsRepo = new RunsRepository();
 const stepsRepo = new StepsRepository();
 const candidatesRepo = new CandidatesRepository();
 const filtersRepo = new FiltersRepository();
+const llmCallsRepo = new LLMCallsRepository();
+const lifecycle = new LifecycleService(runsRepo, stepsRepo, lifecycleOptionsFromEnv());
+
+/**
+ * A step of the caller's project with its run
+ * @throws NotFoundError if the step does not exist in the project
+ */
+async function findStepWithRun(req: Request, stepId: string): Promise<{ step: Step; run: Run }> {
+  const step = await stepsRepo.findById(stepId, requireProject(req));
+  const run = step && await runsRepo.findById(step.runId);
+  if (!step || !run) {
+    throw new NotFoundError('Step', stepId);
+  }
+  return { step, run };
+}
 
 /**
  * POST /api/steps
  * Creates a new step
- * 
+ * With a client-supplied id, repeating the request returns the stored step;
+ * a different payload for the same id is rejected with 409
+ * The run must still be running (409 otherwise), unless the step is already stored
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requirePermission('write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const step = await stepsRepo.create(req.body);
+    const data = assertValid(req.body, stepSchema);
+    const run = await runsRepo.findById(data.runId, requireProject(req));
+
+    if (!run) {
+      throw new NotFoundError('Run', data.runId);
+    }
+
+    const step = await lifecycle.createStep(run, data);
     res.status(201).json(step);
-  } catch (error: any) {
-    res.status(400).json({
-      error: error.message || 'Failed to create step'
-    });
+  } catch (error) {
+    next(error);
   }
 });
 
 /**
  * GET /api/steps/:id
- * Gets a step by ID with all candidates and filters
+ * Gets a step by ID with all candidates, filters and LLM calls
  * 
  */
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', requirePermission('read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const step = await stepsRepo.findById(req.params.id);
+    const step = await stepsRepo.findById(req.params.id, requireProject(req));
 
     if (!step) {
-      return res.status(404).json({ error: 'Step not found' });
+      throw new NotFoundError('Step', req.params.id);
     }
 
-    const [candidates, filters] = await Promise.all([
+    const [candidates, filters, llmCalls] = await Promise.all([
       candidatesRepo.findByStepId(step.id),
-      filtersRepo.findByStepId(step.id)
+      filtersRepo.findByStepId(step.id),
+      llmCallsRepo.findByStepId(step.id)
     ]);
 
     res.json({
       ...step,
       candidates,
-      filters
-    });
-  } catch (error: any) {
-    console.error('Error fetching step:', error);
-    res.status(500).json({
-      error: error.message || 'Internal server error'
+      filters,
+      llmCalls
     });
+  } catch (error) {
+    next(error);
   }
 });
 
 /**
  * PATCH /api/steps/:id
  * Updates a step (typically to mark as completed or add output)
- * 
+ * Only STEP_UPDATABLE_FIELDS may be sent; a step cannot be moved to another run
+ * A finished step cannot change, and a finished run's steps only within the
+ * late-write grace window (409 with the current state)
  */
-router.patch('/:id', async (req: Request, res: Response) => {
+router.patch('/:id', requirePermission('write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const step = await stepsRepo.update(req.params.id, req.body);
-    res.json(step);
-  } catch (error: any) {
-    res.status(400).json({
-      error: error.message || 'Failed to update step'
-    });
+    const updates = assertValid<Partial<Step>>(req.body, stepSchema, { partial: true, writable: STEP_UPDATABLE_FIELDS });
+    const { step, run } = await findStepWithRun(req, req.params.id);
+    res.json(await lifecycle.updateStep(run, step, updates));
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -86,19 +123,13 @@ router.patch('/:id', async (req: Request, res: Response) => {
  * Finds filtering steps that eliminated more than threshold% of candidates
  * 
  */
-router.get('/query/high-elimination', async (req: Request, res: Response) => {
+router.get('/query/high-elimination', requirePermission('read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const threshold = req.query.threshold
-      ? parseFloat(req.query.threshold as string)
-      : 0.9;
-
-    const steps = await stepsRepo.findFilteringStepsWithHighElimination(threshold);
+    const { threshold = 0.9 } = parseQuery(req.query, highEliminationQuerySchema);
+    const steps = await stepsRepo.findFilteringStepsWithHighElimination(requireProject(req), threshold);
     res.json(steps);
-  } catch (error: any) {
-    console.error('Error querying high-elimination steps:', error);
-    res.status(500).json({
-      error: error.message || 'Internal server error'
-    });
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -107,94 +138,128 @@ router.get('/query/high-elimination', async (req: Request, res: Response) => {
  * Finds all steps of a specific type
  * 
  */
-router.get('/query/by-type/:stepType', async (req: Request, res: Response) => {
+router.get('/query/by-type/:stepType', requirePermission('read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { limit, offset } = req.query;
+    const filters = parseQuery(req.query, stepQuerySchema);
+    const steps = await stepsRepo.findByStepType(requireProject(req), req.params.stepType, filters);
 
-    const steps = await stepsRepo.findByStepType(req.params.stepType, {
-      limit: limit ? parseInt(limit as string) : undefined,
-      offset: offset ? parseInt(offset as string) : undefined
-    });
-    
     res.json(steps);
-  } catch (error: any) {
-    console.error('Error querying steps by type:', error);
-    res.status(500).json({
-      error: error.message || 'Internal server error'
-    });
+  } catch (error) {
+    next(error);
   }
 });
 
 /**
  * POST /api/steps/:stepId/candidates
  * Adds candidates to a step (bulk operation)
- * 
+ * Candidates with an id that is already stored are not inserted again
+ * The step's run must be running or finished within the late-write grace window,
+ * unless every candidate is already stored
  */
-router.post('/:stepId/candidates', async (req: Request, res: Response) => {
+router.post('/:stepId/candidates', requirePermission('write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { candidates } = req.body;
+    const { run } = await findStepWithRun(req, req.params.stepId);
+    const { candidates } = assertValid(req.body, candidatesSchema);
 
-    if (!Array.isArray(candidates)) {
-      return res.status(400).json({
-        error: 'candidates must be an array'
-      });
-    }
-
-    const candidatesWithStepId: Candidate[] = candidates.map((c: any) => ({
-      stepId: req.params.stepId,
-      ...c
+    const candidatesWithStepId = candidates.map(c => ({
+      ...c,
+      stepId: req.params.stepId
     }));
 
-    const created = await candidatesRepo.createMany(candidatesWithStepId);
+    const created = await candidatesRepo.createMany(
+      candidatesWithStepId,
+      'candidates',
+      () => lifecycle.assertAcceptsRecords(run)
+    );
+    await lifecycle.recordActivity(run);
     res.status(201).json(created);
-  } catch (error: any) {
-    res.status(400).json({
-      error: error.message || 'Failed to create candidates'
-    });
+  } catch (error) {
+    next(error);
   }
 });
 
 /**
  * GET /api/steps/:stepId/candidates
  * Gets candidates for a step with optional filters
+ * reason matches as a case-insensitive substring; filterId matches exactly
  * 
  */
-router.get('/:stepId/candidates', async (req: Request, res: Response) => {
+router.get('/:stepId/candidates', requirePermission('read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { status, limit } = req.query;
+    if (!(await stepsRepo.findById(req.params.stepId, requireProject(req)))) {
+      throw new NotFoundError('Step', req.params.stepId);
+    }
+
+    const filters = parseQuery(req.query, candidateQuerySchema);
+    const candidates = await candidatesRepo.findByStepId(req.params.stepId, filters);
 
-    const candidates = await candidatesRepo.findByStepId(req.params.stepId, {
-      status: status as 'accepted' | 'rejected' | 'pending',
-      limit: limit ? parseInt(limit as string) : undefined
-    });
-    
     res.json(candidates);
-  } catch (error: any) {
-    console.error('Error fetching candidates:', error);
-    res.status(500).json({
-      error: error.message || 'Internal server error'
-    });
+  } catch (error) {
+    next(error);
   }
 });
 
 /**
  * POST /api/steps/:stepId/filters
  * Adds a filter to a step
- * 
+ * The step's run must be running or finished within the late-write grace window,
+ * unless the filter is already stored
  */
-router.post('/:stepId/filters', async (req: Request, res: Response) => {
+router.post('/:stepId/filters', requirePermission('write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const { run } = await findStepWithRun(req, req.params.stepId);
+
     const filter = {
-      stepId: req.params.stepId,
-      ...req.body
+      ...assertValid(req.body, filterSchema),
+      stepId: req.params.stepId
     };
 
-    const created = await filtersRepo.create(filter);
+    const created = await filtersRepo.create(filter, () => lifecycle.assertAcceptsRecords(run));
+    await lifecycle.recordActivity(run);
     res.status(201).json(created);
-  } catch (error: any) {
-    res.status(400).json({
-      error: error.message || 'Failed to create filter'
-    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/steps/:stepId/llm-calls
+ * Records a model call made by a step
+ * totalTokens defaults to promptTokens + completionTokens
+ * The step's run must be running or finished within the late-write grace window,
+ * unless the call is already stored
+ */
+router.post('/:stepId/llm-calls', requirePermission('write'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { run } = await findStepWithRun(req, req.params.stepId);
+
+    const call = {
+      ...assertValid(req.body, llmCallSchema),
+      stepId: req.params.stepId
+    };
+
+    const created = await llmCallsRepo.create(call, () => lifecycle.assertAcceptsRecords(run));
+    res.status(201).json(created);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/steps/:stepId/llm-calls
+ * Gets the LLM calls of a step, in the order they were made
+ * 
+ */
+router.get('/:stepId/llm-calls', requirePermission('read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!(await stepsRepo.findById(req.params.stepId, requireProject(req)))) {
+      throw new NotFoundError('Step', req.params.stepId);
+    }
+
+    const calls = await llmCallsRepo.findByStepId(req.params.stepId);
+    res.json(calls);
+  } catch (error) {
+    next(error);
   }
 });
 
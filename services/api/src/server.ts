@@ -12,6 +12,20 @@ import * as dotenv from 'dotenv';
 import { initializeDatabase } from './db/data-source';
 import runsRouter from './routes/runs';
 import stepsRouter from './routes/steps';
+import eventsRouter from './routes/events';
+import otlpRouter from './routes/otlp';
+import llmCallsRouter from './routes/llmCalls';
+import importRouter from './routes/import';
+import adminRouter from './routes/admin';
+import keysRouter from './routes/keys';
+import { idempotency } from './middleware/idempotency';
+import { payloadLimits, payloadLimitsFromEnv } from './middleware/payloadLimits';
+import { apiKeyAuth, adminAuth } from './middleware/auth';
+import { errorHandler, notFoundHandler } from './middleware/errors';
+import { RunsRepository } from './repositories/runs';
+import { StepsRepository } from './repositories/steps';
+import { RunSweeper, sweeperOptionsFromEnv } from './services/sweeper';
+import { lifecycleOptionsFromEnv } from './services/lifecycle';
 
 dotenv.config();
 
@@ -22,16 +36,25 @@ const PORT = process.env.API_PORT || 3000;
 // Middleware
 // ============================================================================
 
-app.use(express.json());
+// Bulk run uploads carry whole candidate sets, so allow larger bodies than the default 100kb
+app.use(express.json({ limit: process.env.API_BODY_LIMIT || '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
+// Per-field limit, so one oversized value is rejected by name (413) instead of stored
+app.use(payloadLimits(payloadLimitsFromEnv()));
+
 app.use((req: Request, res: Response, next: NextFunction) => {
-  res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PATCH, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type');
+  res.header('Access-Control-Allow-Origin', process.env.API_CORS_ORIGIN || '*');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, Idempotency-Key');
   next();
 });
 
+// API keys resolve to a project that every route is scoped by; idempotency
+// keys are scoped by it too, so replays run after authentication
+const authDisabled = process.env.API_AUTH_DISABLED === 'true';
+const authenticated = [apiKeyAuth({ disabled: authDisabled }), idempotency()];
+
 // ============================================================================
 // Routes
 // ============================================================================
@@ -44,8 +67,14 @@ app.get('/health', (req: Request, res: Response) => {
   });
 });
 
-app.use('/api/runs', runsRouter);
-app.use('/api/steps', stepsRouter);
+app.use('/api/runs', authenticated, runsRouter);
+app.use('/api/steps', authenticated, stepsRouter);
+app.use('/api/events', authenticated, eventsRouter);
+app.use('/api/llm-calls', authenticated, llmCallsRouter);
+app.use('/api/import', authenticated, importRouter);
+app.use('/v1/traces', authenticated, otlpRouter);
+app.use('/api/keys', authenticated, keysRouter);
+app.use('/api/admin', adminAuth(process.env.API_ADMIN_TOKEN), adminRouter);
 
 app.get('/', (req: Request, res: Response) => {
   res.json({
@@ -55,7 +84,13 @@ app.get('/', (req: Request, res: Response) => {
     endpoints: {
       health: '/health',
       runs: '/api/runs',
-      steps: '/api/steps'
+      steps: '/api/steps',
+      events: '/api/events',
+      llmCalls: '/api/llm-calls',
+      import: '/api/import',
+      otlpTraces: '/v1/traces',
+      keys: '/api/keys',
+      admin: '/api/admin'
     }
   });
 });
@@ -64,12 +99,9 @@ app.get('/', (req: Request, res: Response) => {
 // Error Handling
 // ============================================================================
 
-app.use((err: any, req: Request, res: Response, next: NextFunction) => {
-  console.error('Unhandled error:', err);
-  res.status(err.status || 500).json({
-    error: err.message || 'Internal server error'
-  });
-});
+// Every error response is { code, message, details? }
+app.use(notFoundHandler());
+app.use(errorHandler());
 
 // ============================================================================
 // Server Initialization
@@ -79,9 +111,15 @@ async function startServer() {
   try {
     await initializeDatabase();
 
+    // Marks runs whose pipeline stopped reporting as abandoned
+    new RunSweeper(new RunsRepository(), new StepsRepository(), sweeperOptionsFromEnv(), lifecycleOptionsFromEnv()).start();
+
     app.listen(PORT, () => {
       console.log(`🚀 X-Ray API microservice running on http://localhost:${PORT}`);
       console.log(`📊 Health check: http://localhost:${PORT}/health`);
+      if (authDisabled) {
+        console.warn('⚠️  API_AUTH_DISABLED is set: every request uses the default project without an API key');
+      }
     });
   } catch (error) {
     console.error('❌ Failed to start server:', error);
@@ -89,4 +127,9 @@ async function startServer() {
   }
 }
 
-startServer();
+// Started only when run directly, so tests can import the app without a database
+if (require.main === module) {
+  startServer();
+}
+
+export default app;
@@ -0,0 +1,289 @@
+/**
+ * Bulk Ingestion Service
+ *
+ * Stores a complete run (steps, sub-steps, filters and candidates) in a single
+ * database transaction. The whole tree is validated before anything is written,
+ * so an invalid payload is rejected without leaving a partial run behind.
+ * Sending a stored tree again (same IDs and content) stores nothing new.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { DataSource, EntityManager, EntityTarget, In, ObjectLiteral } from 'typeorm';
+import { BulkRunPayload, BulkStepPayload, BulkRunResult, BulkStepResult, ApiErrorDetail } from '@xray/shared';
+import { RunEntity } from '../entities/Run.entity';
+import { Step } from '../entities/Step.entity';
+import { Candidate } from '../entities/Candidate.entity';
+import { Filter } from '../entities/Filter.entity';
+import { ConflictError, ValidationError } from '../repositories/base/errors';
+import { BaseRepository, isUniqueViolation } from '../repositories/base/BaseRepository';
+import { RunsRepository } from '../repositories/runs';
+import { StepsRepository } from '../repositories/steps';
+import { FiltersRepository } from '../repositories/filters';
+import { CandidatesRepository } from '../repositories/candidates';
+import { validate as validateSchema } from '../validation/schema';
+import { bulkRunSchema } from '../validation/schemas';
+import { timeProblems, withDuration } from './lifecycle';
+
+const INSERT_CHUNK_SIZE = 1000;
+
+/**
+ * Rows to insert, in dependency order
+ */
+interface BulkRows {
+  run: Record<string, any>;
+  steps: Record<string, any>[];
+  filters: Record<string, any>[];
+  candidates: Record<string, any>[];
+}
+
+export class BulkIngestService {
+  private dataSource: DataSource;
+  private runsRepo: RunsRepository;
+  private stepsRepo: StepsRepository;
+  private filtersRepo: FiltersRepository;
+  private candidatesRepo: CandidatesRepository;
+
+  constructor(
+    dataSource: DataSource,
+    runsRepo: RunsRepository,
+    stepsRepo: StepsRepository,
+    filtersRepo: FiltersRepository,
+    candidatesRepo: CandidatesRepository
+  ) {
+    this.dataSource = dataSource;
+    this.runsRepo = runsRepo;
+    this.stepsRepo = stepsRepo;
+    this.filtersRepo = filtersRepo;
+    this.candidatesRepo = candidatesRepo;
+  }
+
+  /**
+   * Validates and stores a run tree in one transaction
+   *
+   * @param payload - Run with nested steps, candidates and filters
+   * @param projectId - Project the run is created in
+   * @returns IDs of everything stored, mirroring the payload's shape
+   * @throws ValidationError if any part of the tree is invalid
+   * @throws ConflictError if a supplied ID is already stored, unless the whole tree is
+   */
+  async ingest(payload: BulkRunPayload, projectId: string): Promise<BulkRunResult> {
+    const details = this.validate(payload);
+    if (details.length > 0) {
+      throw new ValidationError(
+        `Invalid run payload (${details.length} error${details.length === 1 ? '' : 's'})`,
+        details
+      );
+    }
+
+    const rows: BulkRows = { run: {}, steps: [], filters: [], candidates: [] };
+    const result = this.plan(payload, projectId, rows);
+
+    // A concurrent repeat of the same payload can win the race; look again once
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.dataSource.transaction(async manager => {
+          if (await this.isStored(manager, rows)) {
+            return;
+          }
+
+          // Steps are planned parent-first, so sub-steps never precede their parent
+          await this.insert(manager, RunEntity, [rows.run]);
+          await this.insert(manager, Step, rows.steps);
+          await this.insert(manager, Filter, rows.filters);
+          await this.insert(manager, Candidate, rows.candidates);
+        });
+        return result;
+      } catch (error) {
+        if (attempt > 1 || !isUniqueViolation(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks the whole tree without touching the database: every record against
+   * its schema, then IDs (unique within the payload), candidates' filterIds and
+   * that nothing completes before it starts (steps start with the run by default)
+   * @returns One detail per problem, by path (empty if valid)
+   */
+  validate(payload: BulkRunPayload): ApiErrorDetail[] {
+    const details = validateSchema(payload, bulkRunSchema);
+    if (details.length > 0) {
+      return details;
+    }
+
+    const seenIds = new Set<string>();
+    const checkId = (id: string | undefined, path: string) => {
+      if (id === undefined) {
+        return;
+      }
+      if (seenIds.has(id)) {
+        details.push({ path: path ? `${path}.id` : 'id', message: `${id} is used more than once` });
+      } else {
+        seenIds.add(id);
+      }
+    };
+
+    const checkSteps = (steps: BulkStepPayload[] = [], path: string) => {
+      steps.forEach((step, i) => {
+        const stepPath = `${path}[${i}]`;
+        checkId(step.id, stepPath);
+        details.push(...timeProblems({ startedAt: step.startedAt ?? payload.startedAt, completedAt: step.completedAt }, stepPath));
+
+        const filterIds = new Set<string>();
+        (step.filters || []).forEach((filter, j) => {
+          checkId(filter.id, `${stepPath}.filters[${j}]`);
+          if (filter.id !== undefined) {
+            filterIds.add(filter.id);
+          }
+        });
+
+        (step.candidates || []).forEach((candidate, j) => {
+          const candidatePath = `${stepPath}.candidates[${j}]`;
+          checkId(candidate.id, candidatePath);
+          if (candidate.filterId !== undefined && candidate.filterId !== null && !filterIds.has(candidate.filterId)) {
+            details.push({ path: `${candidatePath}.filterId`, message: `${candidate.filterId} is not a filter of this step` });
+          }
+        });
+
+        checkSteps(step.children, `${stepPath}.children`);
+      });
+    };
+
+    checkId(payload.id, '');
+    details.push(...timeProblems(payload));
+    checkSteps(payload.steps, 'steps');
+    return details;
+  }
+
+  /**
+   * Assigns IDs, step indexes and defaults, collecting rows parent-first
+   * Step indexes not supplied follow depth-first order, as the SDK numbers them;
+   * completed steps without durationMs get it from their timestamps
+   */
+  private plan(payload: BulkRunPayload, projectId: string, rows: BulkRows): BulkRunResult {
+    const { steps = [], ...run } = payload;
+    const runId = run.id || uuidv4();
+    let nextIndex = 0;
+
+    rows.run = {
+      ...run,
+      id: runId,
+      projectId,
+      status: run.status || (run.completedAt ? 'completed' : 'running'),
+      startedAt: run.startedAt || new Date(),
+      metadata: run.metadata || {}
+    };
+
+    const planStep = (step: BulkStepPayload, parentStepId?: string): BulkStepResult => {
+      const { candidates = [], filters = [], children = [], ...stepData } = step;
+      const stepId = stepData.id || uuidv4();
+      const stepIndex = stepData.stepIndex ?? nextIndex;
+      nextIndex = Math.max(nextIndex, stepIndex + 1);
+
+      rows.steps.push({
+        ...withDuration(stepData, stepData.startedAt ?? run.startedAt),
+        id: stepId,
+        runId,
+        parentStepId,
+        stepIndex,
+        status: stepData.status || (stepData.completedAt ? 'completed' : 'running'),
+        startedAt: stepData.startedAt || rows.run.startedAt,
+        metadata: stepData.metadata || {},
+        captureAllCandidates: stepData.captureAllCandidates || false
+      });
+
+      const filterIds = filters.map(filter => {
+        const id = filter.id || uuidv4();
+        rows.filters.push({
+          ...filter,
+          id,
+          stepId,
+          config: filter.config || {},
+          metadata: filter.metadata || {}
+        });
+        return id;
+      });
+
+      const candidateIds = candidates.map(candidate => {
+        const id = candidate.id || uuidv4();
+        rows.candidates.push({
+          ...candidate,
+          id,
+          stepId,
+          data: candidate.data || {},
+          metadata: candidate.metadata || {}
+        });
+        return id;
+      });
+
+      return {
+        id: stepId,
+        stepIndex,
+        candidateIds,
+        filterIds,
+        children: children.map(child => planStep(child, stepId))
+      };
+    };
+
+    return { id: runId, steps: steps.map(step => planStep(step)) };
+  }
+
+  /**
+   * Whether the whole tree is already stored, each record under the same owner
+   * and with the same identity fields the single-record creates compare
+   * @returns false if none of it is stored
+   * @throws ConflictError if only part of it is, an ID belongs to another run, step
+   * or project, or a stored record differs from the payload's
+   */
+  private async isStored(manager: EntityManager, rows: BulkRows): Promise<boolean> {
+    const stored: [string, string[], number][] = [
+      ['Run', await this.findStored(manager, RunEntity, this.runsRepo, [rows.run]), 1],
+      ['Step', await this.findStored(manager, Step, this.stepsRepo, rows.steps), rows.steps.length],
+      ['Filter', await this.findStored(manager, Filter, this.filtersRepo, rows.filters), rows.filters.length],
+      ['Candidate', await this.findStored(manager, Candidate, this.candidatesRepo, rows.candidates), rows.candidates.length]
+    ];
+
+    const found = stored.find(([, ids]) => ids.length > 0);
+    if (!found) {
+      return false;
+    }
+    if (stored.some(([, ids, total]) => ids.length < total)) {
+      throw new ConflictError(found[0], found[1][0]);
+    }
+    return true;
+  }
+
+  /**
+   * IDs of the batch's rows that are already stored
+   * @throws ConflictError if one is stored under a different owner or with different identity fields
+   */
+  private async findStored<TEntity extends ObjectLiteral, TDomain>(
+    manager: EntityManager,
+    target: EntityTarget<TEntity>,
+    repository: BaseRepository<TEntity, TDomain>,
+    rows: Record<string, any>[]
+  ): Promise<string[]> {
+    const stored: string[] = [];
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = new Map(rows.slice(i, i + INSERT_CHUNK_SIZE).map(row => [row.id, row]));
+      const existing = await manager.find(target, { where: { id: In([...chunk.keys()]) } as any });
+      for (const entity of existing) {
+        repository.assertSameAsStored(entity, chunk.get(entity.id) as Partial<TDomain>);
+        stored.push(entity.id);
+      }
+    }
+    return stored;
+  }
+
+  private async insert(
+    manager: EntityManager,
+    target: EntityTarget<ObjectLiteral>,
+    rows: Record<string, any>[]
+  ): Promise<void> {
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      await manager.insert(target, rows.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Event Ingestion Service
+ *
+ * Applies batches of SDK events (the same operations as the individual
+ * run/step/candidate/filter routes) in the order they were recorded.
+ * Every event is applied within one project: runs are created in it, and
+ * events for runs or steps of another project fail as not found. Event data
+ * is checked against the same schemas as the routes' bodies, and status
+ * changes against the same run and step lifecycle.
+ */
+
+import { IngestEvent, IngestEventResult, Run, Step } from '@xray/shared';
+import { RunsRepository } from '../repositories/runs';
+import { StepsRepository } from '../repositories/steps';
+import { CandidatesRepository } from '../repositories/candidates';
+import { FiltersRepository } from '../repositories/filters';
+import { LLMCallsRepository } from '../repositories/llmCalls';
+import { NotFoundError } from '../repositories/base/errors';
+import { describeError } from '../middleware/errors';
+import { LifecycleOptions, LifecycleService } from './lifecycle';
+import { assertValid, invalid, validate } from '../validation/schema';
+import {
+  runSchema, stepSchema, candidateSchema, filterSchema, llmCallSchema,
+  RUN_UPDATABLE_FIELDS, STEP_UPDATABLE_FIELDS
+} from '../validation/schemas';
+
+const EVENT_TYPES: IngestEvent['type'][] = [
+  'createRun', 'updateRun', 'createStep', 'updateStep', 'createCandidates', 'createFilter', 'createLLMCall'
+];
+
+/**
+ * Runs and steps of the project a batch has read or written so far
+ */
+interface BatchRecords {
+  runs: Map<string, Run>;
+  steps: Map<string, Step>;
+}
+
+export class EventIngestService {
+  private runsRepo: RunsRepository;
+  private stepsRepo: StepsRepository;
+  private candidatesRepo: CandidatesRepository;
+  private filtersRepo: FiltersRepository;
+  private llmCallsRepo: LLMCallsRepository;
+  private lifecycle: LifecycleService;
+
+  constructor(
+    runsRepo: RunsRepository,
+    stepsRepo: StepsRepository,
+    candidatesRepo: CandidatesRepository,
+    filtersRepo: FiltersRepository,
+    llmCallsRepo: LLMCallsRepository,
+    lifecycleOptions: LifecycleOptions = {}
+  ) {
+    this.runsRepo = runsRepo;
+    this.stepsRepo = stepsRepo;
+    this.candidatesRepo = candidatesRepo;
+    this.filtersRepo = filtersRepo;
+    this.llmCallsRepo = llmCallsRepo;
+    this.lifecycle = new LifecycleService(runsRepo, stepsRepo, lifecycleOptions);
+  }
+
+  /**
+   * Applies events one at a time, in order
+   * A failed event does not stop the batch; its result carries the status
+   * and error body the single-event route would have returned
+   *
+   * @param events - Events in recording order
+   * @param projectId - Project the events are applied in
+   * @returns One result per event, in the same order
+   */
+  async applyBatch(events: IngestEvent[], projectId: string): Promise<IngestEventResult[]> {
+    const results: IngestEventResult[] = [];
+    const records: BatchRecords = { runs: new Map(), steps: new Map() };
+
+    for (let index = 0; index < events.length; index++) {
+      try {
+        await this.apply(events[index], projectId, records);
+        results.push({ index, status: events[index].type.startsWith('create') ? 201 : 200 });
+      } catch (error) {
+        const { status, body } = describeError(error);
+        if (status >= 500) {
+          console.error(`Error applying ${events[index]?.type} event:`, error);
+        }
+        results.push({
+          index,
+          status,
+          error: body.message,
+          code: body.code,
+          ...(body.details ? { details: body.details } : {}),
+          ...(body.current ? { current: body.current } : {})
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private async apply(event: IngestEvent, projectId: string, records: BatchRecords): Promise<void> {
+    switch (event?.type) {
+      case 'createRun': {
+        const data = assertValid(event.data, runSchema, {}, 'data');
+        this.lifecycle.checkNewRun(data);
+        const run = await this.runsRepo.create({ ...data, projectId });
+        records.runs.set(run.id, run);
+        return;
+      }
+      case 'updateRun': {
+        const data = assertValid(event.data, runSchema, { partial: true, writable: RUN_UPDATABLE_FIELDS }, 'data');
+        const run = await this.requireRun(event.runId, projectId, records);
+        records.runs.set(run.id, await this.lifecycle.updateRun(run, data));
+        return;
+      }
+      case 'createStep': {
+        const data = assertValid(event.data, stepSchema, {}, 'data');
+        const run = await this.requireRun(data.runId, projectId, records);
+        const step = await this.lifecycle.createStep(run, data);
+        records.steps.set(step.id, step);
+        return;
+      }
+      case 'updateStep': {
+        const data = assertValid(event.data, stepSchema, { partial: true, writable: STEP_UPDATABLE_FIELDS }, 'data');
+        const step = await this.requireStep(event.stepId, projectId, records);
+        const run = await this.requireRun(step.runId, projectId, records);
+        records.steps.set(step.id, await this.lifecycle.updateStep(run, step, data));
+        return;
+      }
+      case 'createCandidates': {
+        const details = Array.isArray(event.data)
+          ? event.data.flatMap((candidate, i) => validate(candidate, candidateSchema, `data[${i}]`))
+          : [{ path: 'data', message: 'must be an array' }];
+        if (details.length > 0) {
+          throw invalid(details);
+        }
+        const run = await this.requireStepRun(event.stepId, projectId, records);
+        await this.candidatesRepo.createMany(
+          event.data.map(c => ({ ...c, stepId: event.stepId })),
+          'data',
+          () => this.lifecycle.assertAcceptsRecords(run)
+        );
+        await this.lifecycle.recordActivity(run);
+        return;
+      }
+      case 'createFilter': {
+        const data = assertValid(event.data, filterSchema, {}, 'data');
+        const run = await this.requireStepRun(event.stepId, projectId, records);
+        await this.filtersRepo.create({ ...data, stepId: event.stepId }, () => this.lifecycle.assertAcceptsRecords(run));
+        await this.lifecycle.recordActivity(run);
+        return;
+      }
+      case 'createLLMCall': {
+        const data = assertValid(event.data, llmCallSchema, {}, 'data');
+        const run = await this.requireStepRun(event.stepId, projectId, records);
+        await this.llmCallsRepo.create({ ...data, stepId: event.stepId }, () => this.lifecycle.assertAcceptsRecords(run));
+        return;
+      }
+      default:
+        throw invalid([{ path: 'type', message: `must be one of ${EVENT_TYPES.join(', ')}` }]);
+    }
+  }
+
+  /**
+   * @throws NotFoundError if the run does not exist in the project
+   */
+  private async requireRun(runId: string | undefined, projectId: string, records: BatchRecords): Promise<Run> {
+    if (!runId) {
+      throw invalid([{ path: 'runId', message: 'is required' }]);
+    }
+    const cached = records.runs.get(runId);
+    if (cached) {
+      return cached;
+    }
+    const run = await this.runsRepo.findById(runId, projectId);
+    if (!run) {
+      throw new NotFoundError('Run', runId);
+    }
+    records.runs.set(runId, run);
+    return run;
+  }
+
+  /**
+   * @throws NotFoundError if the step does not exist in the project
+   */
+  private async requireStep(stepId: string | undefined, projectId: string, records: BatchRecords): Promise<Step> {
+    if (!stepId) {
+      throw invalid([{ path: 'stepId', message: 'is required' }]);
+    }
+    const cached = records.steps.get(stepId);
+    if (cached) {
+      return cached;
+    }
+    const step = await this.stepsRepo.findById(stepId, projectId);
+    if (!step) {
+      throw new NotFoundError('Step', stepId);
+    }
+    records.steps.set(stepId, step);
+    return step;
+  }
+
+  /**
+   * The run of a step, for checking that it still accepts candidates, filters and LLM calls
+   * @throws NotFoundError if the step does not exist in the project
+   */
+  private async requireStepRun(stepId: string | undefined, projectId: string, records: BatchRecords): Promise<Run> {
+    const step = await this.requireStep(stepId, projectId, records);
+    return this.requireRun(step.runId, projectId, records);
+  }
+}
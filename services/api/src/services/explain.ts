@@ -0,0 +1,188 @@
+/**
+ * "Why Not?" Explanation Service
+ *
+ * Answers "why wasn't candidate X selected?" for a run by walking its steps
+ * in order and finding the first one that rejected, lost or outranked it.
+ */
+
+import { Candidate, Filter, Step, WhyNotExplanation } from '@xray/shared';
+import { StepsRepository } from '../repositories/steps';
+import { CandidatesRepository } from '../repositories/candidates';
+import { FiltersRepository } from '../repositories/filters';
+
+interface StepDetails {
+  step: Step;
+  candidates: Candidate[];
+  filters: Filter[];
+}
+
+export class ExplainService {
+  private stepsRepo: StepsRepository;
+  private candidatesRepo: CandidatesRepository;
+  private filtersRepo: FiltersRepository;
+
+  constructor(
+    stepsRepo: StepsRepository,
+    candidatesRepo: CandidatesRepository,
+    filtersRepo: FiltersRepository
+  ) {
+    this.stepsRepo = stepsRepo;
+    this.candidatesRepo = candidatesRepo;
+    this.filtersRepo = filtersRepo;
+  }
+
+  /**
+   * Explains why a candidate was (not) selected in a run
+   * Only steps that recorded candidates take part; the winner is the top
+   * accepted candidate of the last such step
+   *
+   * @param runId - Run identifier
+   * @param candidateId - The candidate that was expected to win
+   * @param projectId - Project the run belongs to; filters are only looked up within it
+   * @returns Structured explanation with the decisive step, filter and score gap
+   */
+  async explainWhyNot(runId: string, candidateId: string, projectId: string): Promise<WhyNotExplanation> {
+    const steps = await this.stepsRepo.findByRunId(runId);
+    const details: StepDetails[] = await Promise.all(
+      steps.map(async (step) => {
+        const [candidates, filters] = await Promise.all([
+          this.candidatesRepo.findByStepId(step.id),
+          this.filtersRepo.findByStepId(step.id, projectId)
+        ]);
+        return { step, candidates, filters };
+      })
+    );
+
+    const decisionSteps = details.filter(d => d.candidates.length > 0);
+    const finalStep = decisionSteps[decisionSteps.length - 1];
+    const winner = finalStep ? this.topCandidate(finalStep.candidates) : undefined;
+
+    const base = { runId, candidateId, captured: false, hiddenBySampling: false };
+    let lastSeen: StepDetails | undefined;
+
+    for (const detail of decisionSteps) {
+      const record = detail.candidates.find(c => c.candidateId === candidateId);
+      const sampled = this.isSampled(detail);
+
+      if (!record) {
+        base.hiddenBySampling = base.hiddenBySampling || sampled;
+        if (lastSeen) {
+          return {
+            ...base,
+            verdict: 'missing',
+            step: this.stepRef(detail.step),
+            winner: this.winnerRef(winner),
+            summary: `${candidateId} was recorded up to step ${lastSeen.step.stepIndex} (${lastSeen.step.stepType}) `
+              + `but not at step ${detail.step.stepIndex} (${detail.step.stepType})`
+              + (sampled ? '; that step only stored a sample, so it may have been dropped there' : '')
+          };
+        }
+        continue;
+      }
+
+      base.captured = true;
+      lastSeen = detail;
+
+      if (record.status === 'rejected') {
+        const filter = detail.filters.find(f => f.id === record.filterId);
+        const winnerHere = winner && detail.candidates.find(c => c.candidateId === winner.candidateId);
+        return {
+          ...base,
+          verdict: 'rejected',
+          step: this.stepRef(detail.step),
+          reason: record.reason,
+          filter: filter ? this.filterRef(filter) : undefined,
+          stepFilters: filter ? undefined : detail.filters.map(f => this.filterRef(f)),
+          winner: this.winnerRef(winner),
+          scoreGap: this.scoreGap(winnerHere, record),
+          summary: `${candidateId} was rejected at step ${detail.step.stepIndex} (${detail.step.stepType})`
+            + (record.reason ? `: ${record.reason}` : '')
+            + (filter ? ` [${filter.filterType} ${JSON.stringify(filter.config)}]` : '')
+        };
+      }
+    }
+
+    if (!lastSeen || !finalStep) {
+      return {
+        ...base,
+        verdict: 'missing',
+        winner: this.winnerRef(winner),
+        summary: `${candidateId} was never recorded in this run`
+          + (base.hiddenBySampling ? '; some steps only stored a sample, so it may have been hidden by sampling' : '')
+      };
+    }
+
+    if (!winner) {
+      return {
+        ...base,
+        verdict: 'missing',
+        step: this.stepRef(finalStep.step),
+        summary: `No candidate was accepted at step ${finalStep.step.stepIndex} (${finalStep.step.stepType})`
+      };
+    }
+
+    const record = finalStep.candidates.find(c => c.candidateId === candidateId)!;
+
+    if (winner.candidateId === candidateId) {
+      return {
+        ...base,
+        verdict: 'selected',
+        step: this.stepRef(finalStep.step),
+        winner: this.winnerRef(winner),
+        summary: `${candidateId} was the top candidate at step ${finalStep.step.stepIndex} (${finalStep.step.stepType})`
+      };
+    }
+
+    const scoreGap = this.scoreGap(winner, record);
+    return {
+      ...base,
+      verdict: 'outranked',
+      step: this.stepRef(finalStep.step),
+      reason: record.reason,
+      winner: this.winnerRef(winner),
+      scoreGap,
+      summary: `${candidateId} reached step ${finalStep.step.stepIndex} (${finalStep.step.stepType}) `
+        + `but was outranked by ${winner.candidateId}`
+        + (scoreGap !== undefined ? ` (score ${winner.score} vs ${record.score}, gap ${scoreGap})` : '')
+    };
+  }
+
+  /**
+   * Top accepted candidate of a step: an explicit metadata.rank of 1 wins,
+   * otherwise the highest score (candidates arrive sorted by score)
+   */
+  private topCandidate(candidates: Candidate[]): Candidate | undefined {
+    const accepted = candidates.filter(c => c.status === 'accepted');
+    return accepted.find(c => c.metadata?.rank === 1) || accepted[0];
+  }
+
+  /**
+   * Whether a step stored fewer candidates than it saw
+   */
+  private isSampled(detail: StepDetails): boolean {
+    const summary = detail.step.candidateSummary;
+    if (summary) {
+      return summary.total > detail.candidates.length;
+    }
+    return !!detail.step.metadata?.sampling;
+  }
+
+  private scoreGap(winner: Candidate | undefined, candidate: Candidate): number | undefined {
+    if (typeof winner?.score !== 'number' || typeof candidate.score !== 'number') {
+      return undefined;
+    }
+    return winner.score - candidate.score;
+  }
+
+  private stepRef(step: Step): Pick<Step, 'id' | 'stepType' | 'stepIndex'> {
+    return { id: step.id, stepType: step.stepType, stepIndex: step.stepIndex };
+  }
+
+  private filterRef(filter: Filter): Pick<Filter, 'id' | 'filterType' | 'config'> {
+    return { id: filter.id, filterType: filter.filterType, config: filter.config };
+  }
+
+  private winnerRef(winner: Candidate | undefined): WhyNotExplanation['winner'] {
+    return winner ? { candidateId: winner.candidateId, score: winner.score } : undefined;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Event File Import Service
+ *
+ * Ingests newline-delimited JSON event files written by the SDK's file
+ * transport (or left in a spool directory) on hosts without access to the API.
+ * Every line is one IngestEvent, applied through the event ingestion service
+ * in file order, so it gets the same checks as the live routes.
+ */
+
+import { IngestEvent, ApiErrorDetail } from '@xray/shared';
+import { EventIngestService } from './events';
+import { findFieldViolation, PayloadLimitOptions } from '../middleware/payloadLimits';
+
+export interface ImportLineError {
+  line: number;      // 1-based line number in the file
+  type?: string;     // Event type, when the line parsed
+  status: number;    // HTTP status the live route would have returned
+  error: string;
+  details?: ApiErrorDetail[];   // Field problems, for events that failed validation
+}
+
+export interface ImportResult {
+  events: number;    // Non-empty lines read
+  applied: number;
+  failed: number;
+  errors: ImportLineError[];   // The first MAX_REPORTED_ERRORS failures
+}
+
+const BATCH_SIZE = 500;
+const MAX_REPORTED_ERRORS = 100;
+
+export class EventImportService {
+  private eventService: EventIngestService;
+  private limits: PayloadLimitOptions;
+
+  constructor(eventService: EventIngestService, limits: PayloadLimitOptions = {}) {
+    this.eventService = eventService;
+    this.limits = limits;
+  }
+
+  /**
+   * Imports events line by line, in batches
+   * IDs in the file are client-generated and creates of stored IDs are no-ops,
+   * so importing the same file again changes nothing. A failed line does not
+   * stop the import.
+   *
+   * @param lines - The file's lines, e.g. from readline over a stream
+   * @param projectId - Project the events are applied in
+   * @returns Counts and per-line errors
+   */
+  async import(lines: AsyncIterable<string> | Iterable<string>, projectId: string): Promise<ImportResult> {
+    const result: ImportResult = { events: 0, applied: 0, failed: 0, errors: [] };
+    let batch: { line: number; event: IngestEvent }[] = [];
+    let lineNumber = 0;
+
+    for await (const text of lines) {
+      lineNumber++;
+      if (text.trim().length === 0) {
+        continue;
+      }
+      result.events++;
+
+      let event: IngestEvent;
+      try {
+        event = JSON.parse(text);
+      } catch (error: any) {
+        this.fail(result, { line: lineNumber, status: 400, error: `Invalid JSON: ${error.message}` });
+        continue;
+      }
+
+      const violation = findFieldViolation(event, this.limits);
+      if (violation) {
+        this.fail(result, {
+          line: lineNumber,
+          type: event?.type,
+          status: 413,
+          error: `Field ${violation.path} is ${violation.size} bytes, over the ${violation.limit} byte limit`
+        });
+        continue;
+      }
+
+      batch.push({ line: lineNumber, event });
+      if (batch.length >= BATCH_SIZE) {
+        await this.applyBatch(batch, projectId, result);
+        batch = [];
+      }
+    }
+
+    await this.applyBatch(batch, projectId, result);
+    result.errors.sort((a, b) => a.line - b.line);
+    return result;
+  }
+
+  private async applyBatch(
+    batch: { line: number; event: IngestEvent }[],
+    projectId: string,
+    result: ImportResult
+  ): Promise<void> {
+    if (batch.length === 0) {
+      return;
+    }
+
+    const outcomes = await this.eventService.applyBatch(batch.map(entry => entry.event), projectId);
+    for (const outcome of outcomes) {
+      const { line, event } = batch[outcome.index];
+      if (outcome.status < 300) {
+        result.applied++;
+      } else {
+        this.fail(result, {
+          line,
+          type: event?.type,
+          status: outcome.status,
+          error: outcome.error || 'Failed to apply event',
+          ...(outcome.details ? { details: outcome.details } : {})
+        });
+      }
+    }
+  }
+
+  private fail(result: ImportResult, error: ImportLineError): void {
+    result.failed++;
+    if (result.errors.length < MAX_REPORTED_ERRORS) {
+      result.errors.push(error);
+    }
+  }
+}
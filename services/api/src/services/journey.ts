@@ -0,0 +1,80 @@
+/**
+ * Candidate Journey Service
+ *
+ * Reconstructs what happened to a single candidate at every step of a run.
+ * Composes the step, candidate and filter repositories; routes stay thin and
+ * repositories stay single-entity (Single Responsibility Principle).
+ */
+
+import { CandidateJourney, CandidateJourneyStep } from '@xray/shared';
+import { StepsRepository } from '../repositories/steps';
+import { CandidatesRepository } from '../repositories/candidates';
+import { FiltersRepository } from '../repositories/filters';
+
+export class JourneyService {
+  private stepsRepo: StepsRepository;
+  private candidatesRepo: CandidatesRepository;
+  private filtersRepo: FiltersRepository;
+
+  constructor(
+    stepsRepo: StepsRepository,
+    candidatesRepo: CandidatesRepository,
+    filtersRepo: FiltersRepository
+  ) {
+    this.stepsRepo = stepsRepo;
+    this.candidatesRepo = candidatesRepo;
+    this.filtersRepo = filtersRepo;
+  }
+
+  /**
+   * Builds a candidate's journey through a run
+   * Steps that did not record the candidate are included with captured: false
+   *
+   * @param runId - Run identifier
+   * @param candidateId - Candidate identifier (as supplied by the pipeline)
+   * @param projectId - Project the run belongs to; filters are only looked up within it
+   * @returns Journey in step order, with the first step that rejected the candidate
+   */
+  async getJourney(runId: string, candidateId: string, projectId: string): Promise<CandidateJourney> {
+    const [steps, records] = await Promise.all([
+      this.stepsRepo.findByRunId(runId),
+      this.candidatesRepo.findByRunAndCandidateId(runId, candidateId)
+    ]);
+
+    const filterIds = [...records.values()]
+      .map(record => record.filterId)
+      .filter((id): id is string => !!id);
+    const filters = await this.filtersRepo.findByIds(filterIds, projectId);
+
+    const journeySteps: CandidateJourneyStep[] = steps.map(step => {
+      const record = records.get(step.id);
+      const entry: CandidateJourneyStep = {
+        stepId: step.id,
+        stepType: step.stepType,
+        stepIndex: step.stepIndex,
+        parentStepId: step.parentStepId,
+        captured: !!record
+      };
+
+      if (record) {
+        const filter = record.filterId ? filters.get(record.filterId) : undefined;
+        entry.status = record.status;
+        entry.score = record.score;
+        entry.rank = record.rank;
+        entry.reason = record.reason;
+        if (filter) {
+          entry.filter = { id: filter.id, filterType: filter.filterType, config: filter.config };
+        }
+      }
+
+      return entry;
+    });
+
+    return {
+      runId,
+      candidateId,
+      steps: journeySteps,
+      firstDroppedAt: journeySteps.find(step => step.status === 'rejected') || null
+    };
+  }
+}
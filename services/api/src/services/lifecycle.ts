@@ -0,0 +1,266 @@
+/**
+ * Run and Step Lifecycle
+ *
+ * Enforces how runs and steps move through their statuses: running ->
+ * completed | failed | abandoned, and nothing after that. A finished run takes no new
+ * steps and no other changes; its steps may still be completed and get
+ * candidates, filters and LLM calls for a grace window after the run's
+ * completedAt, for records that arrive late. Completion times may not precede
+ * start times, and a step's durationMs is derived from them when not sent.
+ * Violations are StateConflictErrors (409) carrying the record's current state.
+ * Records repeated by their client-supplied ID are returned as stored before any
+ * of this is checked, so retries and replays succeed after a run has finished.
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { ApiErrorDetail, Run, Step } from '@xray/shared';
+import { RunsRepository } from '../repositories/runs';
+import { StepsRepository } from '../repositories/steps';
+import { NotFoundError, StateConflictError, ValidationError } from '../repositories/base/errors';
+
+type Status = Run['status'];
+
+/**
+ * Statuses each status may move to; finished records do not move
+ */
+const TRANSITIONS: Record<Status, Status[]> = {
+  running: ['running', 'completed', 'failed', 'abandoned'],
+  completed: [],
+  failed: [],
+  abandoned: []
+};
+
+export interface LifecycleOptions {
+  lateWriteGraceMs?: number;   // How long a finished run's steps still accept records (default: 60s)
+}
+
+const DEFAULT_LATE_WRITE_GRACE_MS = 60 * 1000;
+
+/**
+ * Options configured for this deployment (API_LATE_WRITE_GRACE_MS)
+ */
+export function lifecycleOptionsFromEnv(): LifecycleOptions {
+  return {
+    lateWriteGraceMs: process.env.API_LATE_WRITE_GRACE_MS ? Number(process.env.API_LATE_WRITE_GRACE_MS) : undefined
+  };
+}
+
+export function isFinished(status: Status): boolean {
+  return TRANSITIONS[status].length === 0;
+}
+
+export class LifecycleService {
+  private runsRepo: RunsRepository;
+  private stepsRepo: StepsRepository;
+  private lateWriteGraceMs: number;
+
+  constructor(runsRepo: RunsRepository, stepsRepo: StepsRepository, options: LifecycleOptions = {}) {
+    this.runsRepo = runsRepo;
+    this.stepsRepo = stepsRepo;
+    this.lateWriteGraceMs = options.lateWriteGraceMs ?? DEFAULT_LATE_WRITE_GRACE_MS;
+  }
+
+  /**
+   * Checks a new run's timestamps
+   * @throws ValidationError if completedAt precedes startedAt
+   */
+  checkNewRun(data: Partial<Run>): void {
+    checkTimes(data);
+  }
+
+  /**
+   * Creates a step, filling in durationMs from its timestamps
+   * A step already stored under its client-supplied ID is returned whatever the run's status
+   * @param run - The run the step is added to
+   * @returns Created (or previously created) step
+   * @throws StateConflictError if the step is new and the run is finished
+   * @throws ValidationError if completedAt precedes startedAt
+   */
+  createStep(run: Run, data: Partial<Step>): Promise<Step> {
+    checkTimes(data);
+    return this.stepsRepo.create(withDuration(data, data.startedAt), () => {
+      if (isFinished(run.status)) {
+        throw conflict('Run', run, 'status', `Run ${run.id} is ${run.status}; steps cannot be added to it`);
+      }
+    });
+  }
+
+  /**
+   * Applies an update to a run if its status allows it
+   * Finishing sets completedAt to now when the client does not send it. Repeating
+   * an update a finished run already reflects is accepted as a no-op, so retries
+   * of a lost response succeed.
+   *
+   * @param run - The run as currently stored
+   * @returns The updated run
+   * @throws StateConflictError if the transition or completedAt is not allowed
+   */
+  async updateRun(run: Run, updates: Partial<Run>): Promise<Run> {
+    const next = this.checkTransition('Run', run, updates);
+    if (next === null) {
+      return run;
+    }
+
+    const updated = await this.runsRepo.updateWhere(run.id, { status: run.status }, next);
+    return updated ?? this.concurrentChange('Run', run.id, await this.runsRepo.findById(run.id));
+  }
+
+  /**
+   * Applies an update to a step if its status and its run allow it
+   * Like runs, finishing sets completedAt; durationMs is derived when not sent.
+   *
+   * @param run - The step's run as currently stored
+   * @param step - The step as currently stored
+   * @returns The updated step
+   * @throws StateConflictError if the run no longer accepts writes, or the
+   * transition or completedAt is not allowed
+   */
+  async updateStep(run: Run, step: Step, updates: Partial<Step>): Promise<Step> {
+    const next = this.checkTransition('Step', step, updates);
+    if (next === null) {
+      return step;
+    }
+    this.assertAcceptsRecords(run);
+
+    const updated = await this.stepsRepo.updateWhere(
+      step.id,
+      { status: step.status },
+      next.completedAt ? withDuration(next, step.startedAt) : next
+    );
+    return updated ?? this.concurrentChange('Step', step.id, await this.stepsRepo.findById(step.id));
+  }
+
+  /**
+   * Records that a running run is still alive, so the stuck-run sweeper does not abandon it
+   * @returns The run with its new lastHeartbeatAt
+   * @throws StateConflictError if the run is finished (e.g. already abandoned)
+   */
+  async recordHeartbeat(run: Run): Promise<Run> {
+    if (isFinished(run.status)) {
+      throw conflict('Run', run, 'status', `Run ${run.id} is ${run.status}; heartbeats are only accepted while it is running`);
+    }
+    const updated = await this.runsRepo.recordHeartbeat(run.id);
+    return updated ?? this.concurrentChange('Run', run.id, await this.runsRepo.findById(run.id));
+  }
+
+  /**
+   * Counts candidates or filters written to a running run's steps as activity
+   * They have no timestamps of their own, so the write refreshes the run's
+   * heartbeat; otherwise a step streaming candidates would look stuck to the sweeper
+   */
+  async recordActivity(run: Run): Promise<void> {
+    if (!isFinished(run.status)) {
+      await this.runsRepo.recordHeartbeat(run.id);
+    }
+  }
+
+  /**
+   * Checks that records (candidates, filters, LLM calls) may still be added to
+   * a run's steps: the run is running, or finished within the grace window
+   * @throws StateConflictError otherwise
+   */
+  assertAcceptsRecords(run: Run): void {
+    if (!isFinished(run.status)) {
+      return;
+    }
+    const finishedAt = run.completedAt ? new Date(run.completedAt).getTime() : undefined;
+    if (finishedAt === undefined || Date.now() - finishedAt > this.lateWriteGraceMs) {
+      throw conflict('Run', run, 'status', `Run ${run.id} is ${run.status}; its steps no longer accept writes`);
+    }
+  }
+
+  /**
+   * The updates to store, or null if a finished record already reflects them
+   * @throws StateConflictError if the move is not allowed
+   */
+  private checkTransition<T extends Run | Step>(entity: string, record: T, updates: Partial<T>): Partial<T> | null {
+    const status = updates.status ?? record.status;
+
+    if (isFinished(record.status)) {
+      if (unchanged(record, updates)) {
+        return null;
+      }
+      throw conflict(entity, record, 'status', `${entity} ${record.id} is already ${record.status}`);
+    }
+    if (!TRANSITIONS[record.status].includes(status)) {
+      throw conflict(entity, record, 'status', `${entity} ${record.id} cannot move from ${record.status} to ${status}`);
+    }
+
+    const next = { ...updates };
+    if (isFinished(status) && next.completedAt === undefined && !record.completedAt) {
+      next.completedAt = new Date();
+    }
+    if (next.completedAt !== undefined && new Date(next.completedAt) < new Date(record.startedAt)) {
+      throw conflict(entity, record, 'completedAt', `${entity} ${record.id} cannot complete before it started`);
+    }
+    return next;
+  }
+
+  /**
+   * Another writer changed the record between the read and the write
+   */
+  private concurrentChange(entity: string, id: string, current: Run | Step | null): never {
+    if (!current) {
+      throw new NotFoundError(entity, id);
+    }
+    throw conflict(entity, current, 'status', `${entity} ${id} was changed concurrently and is now ${current.status}`);
+  }
+}
+
+function conflict(
+  entity: string,
+  record: Pick<Step, 'id' | 'status' | 'startedAt' | 'completedAt' | 'durationMs'>,
+  field: string,
+  message: string
+): StateConflictError {
+  const { status, startedAt, completedAt, durationMs } = record;
+  return new StateConflictError(entity, record.id, field, message, {
+    status,
+    startedAt,
+    ...(completedAt ? { completedAt } : {}),
+    ...(durationMs !== undefined && durationMs !== null ? { durationMs } : {})
+  });
+}
+
+/**
+ * Compares a new record's timestamps when both are sent (a server-set
+ * startedAt is not compared with client clocks)
+ * @throws ValidationError if completedAt precedes startedAt (a new record has no state to conflict with)
+ */
+function checkTimes(data: { startedAt?: Date; completedAt?: Date }): void {
+  const details = timeProblems(data);
+  if (details.length > 0) {
+    throw new ValidationError('completedAt cannot precede startedAt', details);
+  }
+}
+
+/**
+ * Problems with a new record's timestamps, by path
+ */
+export function timeProblems(data: { startedAt?: Date; completedAt?: Date }, path: string = ''): ApiErrorDetail[] {
+  if (data.completedAt && data.startedAt && new Date(data.completedAt) < new Date(data.startedAt)) {
+    return [{ path: path ? `${path}.completedAt` : 'completedAt', message: 'must not be before startedAt' }];
+  }
+  return [];
+}
+
+/**
+ * Fills in durationMs from completedAt and the start time when it was not sent
+ */
+export function withDuration<T extends Partial<Step>>(data: T, startedAt: Date | undefined): T {
+  if (data.durationMs !== undefined || !data.completedAt || !startedAt) {
+    return data;
+  }
+  return { ...data, durationMs: new Date(data.completedAt).getTime() - new Date(startedAt).getTime() };
+}
+
+/**
+ * Whether every sent field already has the sent value (compared as JSON,
+ * so dates sent as strings match stored dates)
+ */
+function unchanged<T extends object>(record: T, updates: Partial<T>): boolean {
+  const normalize = (value: unknown) => (value === undefined ? null : JSON.parse(JSON.stringify(value)));
+  return (Object.keys(updates) as (keyof T)[])
+    .filter(field => updates[field] !== undefined)
+    .every(field => isDeepStrictEqual(normalize(record[field]), normalize(updates[field])));
+}
@@ -0,0 +1,309 @@
+/**
+ * OTLP Trace Ingestion Service
+ *
+ * Converts OpenTelemetry spans (OTLP/HTTP JSON) that carry X-Ray attributes
+ * into runs and steps, and applies them through the event ingestion service.
+ * A span with xray.pipeline.id is a run; a span with xray.step.type is a step
+ * of the nearest run span above it. Other spans are ignored.
+ */
+
+import { createHash } from 'crypto';
+import { IngestEvent, XRaySpanAttributes as Attr } from '@xray/shared';
+import { EventIngestService } from './events';
+
+/**
+ * OTLP/JSON request shapes (only the fields used here)
+ */
+export interface OtlpTraceRequest {
+  resourceSpans?: {
+    resource?: { attributes?: OtlpKeyValue[] };
+    scopeSpans?: { spans?: OtlpSpan[] }[];
+  }[];
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name?: string;
+  startTimeUnixNano?: string | number;
+  endTimeUnixNano?: string | number;
+  attributes?: OtlpKeyValue[];
+  status?: { code?: number | string; message?: string };
+}
+
+interface OtlpKeyValue {
+  key: string;
+  value?: OtlpAnyValue;
+}
+
+interface OtlpAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: string | number;
+  doubleValue?: number;
+  arrayValue?: { values?: OtlpAnyValue[] };
+  kvlistValue?: { values?: OtlpKeyValue[] };
+}
+
+interface ParsedSpan {
+  span: OtlpSpan;
+  attributes: Record<string, any>;
+  service?: string;
+  kind: 'run' | 'step' | 'other';
+}
+
+export interface OtlpIngestResult {
+  runs: number;
+  steps: number;
+  rejected: { spanId: string; error: string }[];
+}
+
+export class OtlpIngestService {
+  private eventService: EventIngestService;
+
+  constructor(eventService: EventIngestService) {
+    this.eventService = eventService;
+  }
+
+  /**
+   * Creates (and completes) the runs and steps described by a batch of spans
+   * IDs come from xray.run.id / xray.step.id, or are derived from the trace and
+   * span IDs, so exporting the same spans again does not duplicate anything.
+   * Runs and steps that already exist (e.g. recorded by the SDK) are left as they are.
+   *
+   * @param request - OTLP ExportTraceServiceRequest, JSON-encoded
+   * @param projectId - Project the runs are created in
+   * @returns Counts of runs/steps ingested and the spans that were rejected
+   */
+  async ingest(request: OtlpTraceRequest, projectId: string): Promise<OtlpIngestResult> {
+    const spans = this.parse(request);
+    const bySpanId = new Map(spans.map(parsed => [parsed.span.spanId, parsed]));
+    const rejected: OtlpIngestResult['rejected'] = [];
+    const events: IngestEvent[] = [];
+    const eventSpans: ParsedSpan[] = [];
+    const push = (event: IngestEvent, parsed: ParsedSpan) => {
+      events.push(event);
+      eventSpans.push(parsed);
+    };
+
+    const reject = (parsed: ParsedSpan, error: string) => rejected.push({ spanId: parsed.span.spanId, error });
+    for (const parsed of spans) {
+      if (parsed.kind !== 'other' && !toDate(parsed.span.startTimeUnixNano)) {
+        reject(parsed, `Span ${parsed.span.spanId} has no startTimeUnixNano`);
+      }
+    }
+    const isValid = (parsed: ParsedSpan) => !rejected.some(r => r.spanId === parsed.span.spanId);
+
+    // Run completions are applied after the steps, which a finished run no longer accepts
+    const runCompletions: [IngestEvent, ParsedSpan][] = [];
+    const runs = spans.filter(parsed => parsed.kind === 'run' && isValid(parsed));
+    for (const parsed of runs) {
+      const { span, attributes } = parsed;
+      const id = attributes[Attr.RUN_ID] || derivedId(span);
+      push({
+        type: 'createRun',
+        data: {
+          id,
+          pipelineId: String(attributes[Attr.PIPELINE_ID]),
+          pipelineVersion: attributes[Attr.PIPELINE_VERSION],
+          startedAt: toDate(span.startTimeUnixNano)!,
+          metadata: { otel: { traceId: span.traceId, spanId: span.spanId, service: parsed.service } },
+          input: undefined
+        }
+      }, parsed);
+
+      const completedAt = toDate(span.endTimeUnixNano);
+      if (completedAt) {
+        const error = isError(span) ? span.status?.message || 'Span ended with an error' : undefined;
+        runCompletions.push([{
+          type: 'updateRun',
+          runId: id,
+          data: { status: attributes[Attr.RUN_STATUS] || (error ? 'failed' : 'completed'), completedAt, error }
+        }, parsed]);
+      }
+    }
+
+    // Parents before children, then in start order, so stepIndex follows execution
+    const steps = spans
+      .filter(parsed => parsed.kind === 'step' && isValid(parsed))
+      .map(parsed => ({ parsed, depth: this.stepDepth(parsed, bySpanId) }))
+      .sort((a, b) => a.depth - b.depth || startNanos(a.parsed.span) - startNanos(b.parsed.span));
+    const nextIndex = new Map<string, number>();
+
+    for (const { parsed } of steps) {
+      const { span, attributes } = parsed;
+      const runSpan = this.ancestor(parsed, bySpanId, 'run');
+      const runId = attributes[Attr.RUN_ID] || (runSpan && (runSpan.attributes[Attr.RUN_ID] || derivedId(runSpan.span)));
+      if (!runId) {
+        reject(parsed, `Step span ${span.spanId} is not under a run span and has no ${Attr.RUN_ID}`);
+        continue;
+      }
+
+      const parentSpan = this.ancestor(parsed, bySpanId, 'step');
+      const parentStepId = attributes[Attr.PARENT_STEP_ID]
+        || (parentSpan && (parentSpan.attributes[Attr.STEP_ID] || derivedId(parentSpan.span)));
+      const stepIndex = Number.isInteger(attributes[Attr.STEP_INDEX])
+        ? attributes[Attr.STEP_INDEX]
+        : nextIndex.get(runId) || 0;
+      nextIndex.set(runId, Math.max(nextIndex.get(runId) || 0, stepIndex + 1));
+
+      const id = attributes[Attr.STEP_ID] || derivedId(span);
+      const startedAt = toDate(span.startTimeUnixNano)!;
+      push({
+        type: 'createStep',
+        data: {
+          id,
+          runId,
+          parentStepId,
+          stepType: String(attributes[Attr.STEP_TYPE]),
+          stepIndex,
+          startedAt,
+          input: undefined,
+          metadata: { otel: { traceId: span.traceId, spanId: span.spanId } }
+        }
+      }, parsed);
+
+      const completedAt = toDate(span.endTimeUnixNano);
+      if (completedAt) {
+        const error = isError(span) ? span.status?.message || 'Span ended with an error' : undefined;
+        push({
+          type: 'updateStep',
+          stepId: id,
+          data: {
+            status: attributes[Attr.STEP_STATUS] || (error ? 'failed' : 'completed'),
+            completedAt,
+            durationMs: attributes[Attr.DURATION_MS] ?? completedAt.getTime() - startedAt.getTime(),
+            inputCount: attributes[Attr.INPUT_COUNT],
+            outputCount: attributes[Attr.OUTPUT_COUNT],
+            error
+          }
+        }, parsed);
+      }
+    }
+
+    runCompletions.forEach(([event, parsed]) => push(event, parsed));
+
+    const results = await this.eventService.applyBatch(events, projectId);
+    for (const result of results) {
+      // 409: already stored with other content, or already finished (typically by the SDK itself)
+      const parsed = eventSpans[result.index];
+      if (result.status >= 400 && result.status !== 409 && isValid(parsed)) {
+        reject(parsed, result.error || 'Failed to apply span');
+      }
+    }
+
+    return {
+      runs: runs.filter(isValid).length,
+      steps: steps.filter(({ parsed }) => isValid(parsed)).length,
+      rejected
+    };
+  }
+
+  private parse(request: OtlpTraceRequest): ParsedSpan[] {
+    const parsed: ParsedSpan[] = [];
+    for (const resourceSpans of request?.resourceSpans || []) {
+      const resource = toAttributes(resourceSpans.resource?.attributes);
+      for (const scopeSpans of resourceSpans.scopeSpans || []) {
+        for (const span of scopeSpans.spans || []) {
+          if (!span?.spanId || !span.traceId) {
+            continue;
+          }
+          const attributes = toAttributes(span.attributes);
+          parsed.push({
+            span,
+            attributes,
+            service: resource['service.name'],
+            kind: attributes[Attr.PIPELINE_ID] ? 'run' : attributes[Attr.STEP_TYPE] ? 'step' : 'other'
+          });
+        }
+      }
+    }
+    return parsed;
+  }
+
+  /**
+   * Nearest span of a kind above this one (through spans of any kind),
+   * stopping at a run span when looking for a parent step
+   */
+  private ancestor(
+    parsed: ParsedSpan,
+    bySpanId: Map<string, ParsedSpan>,
+    kind: 'run' | 'step'
+  ): ParsedSpan | undefined {
+    const seen = new Set<string>();
+    let current = parsed.span.parentSpanId ? bySpanId.get(parsed.span.parentSpanId) : undefined;
+    while (current && !seen.has(current.span.spanId)) {
+      if (current.kind === kind) {
+        return current;
+      }
+      if (current.kind === 'run') {
+        return undefined;
+      }
+      seen.add(current.span.spanId);
+      current = current.span.parentSpanId ? bySpanId.get(current.span.parentSpanId) : undefined;
+    }
+    return undefined;
+  }
+
+  private stepDepth(parsed: ParsedSpan, bySpanId: Map<string, ParsedSpan>): number {
+    let depth = 0;
+    let parent = this.ancestor(parsed, bySpanId, 'step');
+    while (parent && depth < 100) {
+      depth++;
+      parent = this.ancestor(parent, bySpanId, 'step');
+    }
+    return depth;
+  }
+}
+
+/**
+ * Deterministic UUID for a span without an X-Ray ID
+ */
+function derivedId(span: OtlpSpan): string {
+  const hex = createHash('sha256').update(`${span.traceId}:${span.spanId}`).digest('hex');
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    '5' + hex.slice(13, 16),
+    ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16) + hex.slice(17, 20),
+    hex.slice(20, 32)
+  ].join('-');
+}
+
+function toAttributes(keyValues: OtlpKeyValue[] | undefined): Record<string, any> {
+  const attributes: Record<string, any> = {};
+  for (const { key, value } of keyValues || []) {
+    attributes[key] = toValue(value);
+  }
+  return attributes;
+}
+
+function toValue(value: OtlpAnyValue | undefined): any {
+  if (!value) return undefined;
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.boolValue !== undefined) return value.boolValue;
+  if (value.intValue !== undefined) return Number(value.intValue);
+  if (value.doubleValue !== undefined) return value.doubleValue;
+  if (value.arrayValue) return (value.arrayValue.values || []).map(toValue);
+  if (value.kvlistValue) return toAttributes(value.kvlistValue.values);
+  return undefined;
+}
+
+/**
+ * Nanosecond timestamp (a decimal string in OTLP/JSON) to a Date
+ */
+function toDate(nanos: string | number | undefined): Date | undefined {
+  if (nanos === undefined || nanos === null || !/^\d+$/.test(String(nanos)) || Number(nanos) === 0) {
+    return undefined;
+  }
+  return new Date(Number(BigInt(nanos) / BigInt(1000000)));
+}
+
+function startNanos(span: OtlpSpan): number {
+  return Number(span.startTimeUnixNano || 0);
+}
+
+function isError(span: OtlpSpan): boolean {
+  return span.status?.code === 2 || span.status?.code === 'STATUS_CODE_ERROR';
+}
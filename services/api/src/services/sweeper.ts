@@ -0,0 +1,197 @@
+/**
+ * Stuck Run Sweeper
+ *
+ * A run whose process died stays 'running' forever. The sweeper periodically
+ * finds running runs with no activity (steps, LLM calls or SDK heartbeats) for
+ * longer than their pipeline's inactivity timeout and marks them, and their
+ * steps still running, as 'abandoned'. Why is recorded on the run: a message
+ * in error and the timeout and last activity in metadata.abandoned.
+ * Abandoning goes through the lifecycle, so a run that finishes (or is swept
+ * by another API instance) at the same moment is left as it is.
+ */
+
+import { Run } from '@xray/shared';
+import { RunsRepository } from '../repositories/runs';
+import { StepsRepository } from '../repositories/steps';
+import { StateConflictError, NotFoundError } from '../repositories/base/errors';
+import { LifecycleOptions, LifecycleService } from './lifecycle';
+
+export interface SweeperOptions {
+  intervalMs?: number;                          // How often to sweep (default: 60s; 0 disables the sweeper)
+  inactivityTimeoutMs?: number;                 // Default inactivity timeout (default: 1h)
+  pipelineTimeoutsMs?: Record<string, number>;  // Inactivity timeout per pipelineId
+  batchSize?: number;                           // Most runs abandoned per pipeline and sweep (default: 100)
+}
+
+export interface AbandonedRun {
+  run: Run;
+  lastActivityAt: Date;
+  timeoutMs: number;
+}
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+const DEFAULT_INACTIVITY_TIMEOUT_MS = 60 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Options configured for this deployment (API_RUN_SWEEP_INTERVAL_MS,
+ * API_RUN_INACTIVITY_TIMEOUT_MS, API_RUN_INACTIVITY_TIMEOUTS)
+ * Per-pipeline timeouts are written as "pipelineId=ms,pipelineId=ms"
+ */
+export function sweeperOptionsFromEnv(): SweeperOptions {
+  const pipelineTimeoutsMs: Record<string, number> = {};
+  for (const entry of (process.env.API_RUN_INACTIVITY_TIMEOUTS || '').split(',')) {
+    const separator = entry.lastIndexOf('=');
+    const timeoutMs = Number(entry.slice(separator + 1));
+    if (separator > 0 && Number.isFinite(timeoutMs) && timeoutMs > 0) {
+      pipelineTimeoutsMs[entry.slice(0, separator).trim()] = timeoutMs;
+    } else if (entry.trim()) {
+      console.warn(`Ignoring invalid API_RUN_INACTIVITY_TIMEOUTS entry '${entry}' (expected pipelineId=ms)`);
+    }
+  }
+
+  return {
+    intervalMs: process.env.API_RUN_SWEEP_INTERVAL_MS ? Number(process.env.API_RUN_SWEEP_INTERVAL_MS) : undefined,
+    inactivityTimeoutMs: process.env.API_RUN_INACTIVITY_TIMEOUT_MS
+      ? Number(process.env.API_RUN_INACTIVITY_TIMEOUT_MS)
+      : undefined,
+    pipelineTimeoutsMs
+  };
+}
+
+export class RunSweeper {
+  private runsRepo: RunsRepository;
+  private stepsRepo: StepsRepository;
+  private lifecycle: LifecycleService;
+  private intervalMs: number;
+  private inactivityTimeoutMs: number;
+  private pipelineTimeoutsMs: Record<string, number>;
+  private batchSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping: Promise<AbandonedRun[]> | null = null;
+
+  constructor(
+    runsRepo: RunsRepository,
+    stepsRepo: StepsRepository,
+    options: SweeperOptions = {},
+    lifecycleOptions: LifecycleOptions = {}
+  ) {
+    this.runsRepo = runsRepo;
+    this.stepsRepo = stepsRepo;
+    this.lifecycle = new LifecycleService(runsRepo, stepsRepo, lifecycleOptions);
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.inactivityTimeoutMs = options.inactivityTimeoutMs ?? DEFAULT_INACTIVITY_TIMEOUT_MS;
+    this.pipelineTimeoutsMs = options.pipelineTimeoutsMs || {};
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  }
+
+  /**
+   * Start sweeping in the background (no-op if already running or disabled)
+   * The timer is unref'd so it never keeps the process alive.
+   */
+  start(): void {
+    if (this.timer || this.intervalMs <= 0) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => console.error('Failed to sweep stuck runs:', error));
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Abandons every running run inactive for longer than its pipeline's timeout
+   * Overlapping calls share one sweep.
+   *
+   * @param now - Time the timeouts are measured from
+   * @returns The runs abandoned by this sweep
+   */
+  sweep(now: Date = new Date()): Promise<AbandonedRun[]> {
+    if (!this.sweeping) {
+      this.sweeping = this.sweepAll(now).finally(() => {
+        this.sweeping = null;
+      });
+    }
+    return this.sweeping;
+  }
+
+  private async sweepAll(now: Date): Promise<AbandonedRun[]> {
+    const pipelines = Object.keys(this.pipelineTimeoutsMs);
+    const abandoned: AbandonedRun[] = [];
+
+    for (const pipelineId of pipelines) {
+      abandoned.push(...await this.sweepPipelines(now, this.pipelineTimeoutsMs[pipelineId], { include: [pipelineId] }));
+    }
+    abandoned.push(...await this.sweepPipelines(now, this.inactivityTimeoutMs, { exclude: pipelines }));
+
+    if (abandoned.length > 0) {
+      console.warn(`Abandoned ${abandoned.length} inactive run(s): ${abandoned.map(a => a.run.id).join(', ')}`);
+    }
+    return abandoned;
+  }
+
+  private async sweepPipelines(
+    now: Date,
+    timeoutMs: number,
+    pipelines: { include?: string[]; exclude?: string[] }
+  ): Promise<AbandonedRun[]> {
+    const cutoff = new Date(now.getTime() - timeoutMs);
+    const inactive = await this.runsRepo.findInactive(cutoff, pipelines, this.batchSize);
+    const abandoned: AbandonedRun[] = [];
+
+    for (const { run, lastActivityAt } of inactive) {
+      const updated = await this.abandon(run, lastActivityAt, timeoutMs);
+      if (updated) {
+        abandoned.push({ run: updated, lastActivityAt, timeoutMs });
+      }
+    }
+    return abandoned;
+  }
+
+  /**
+   * Abandons a run's running steps, then the run
+   * @returns The abandoned run, or null if it changed in the meantime
+   */
+  private async abandon(run: Run, lastActivityAt: Date, timeoutMs: number): Promise<Run | null> {
+    const error = `Abandoned: no activity for ${formatDuration(timeoutMs)} (last activity at ${lastActivityAt.toISOString()})`;
+
+    try {
+      for (const step of await this.stepsRepo.findByRunId(run.id)) {
+        if (step.status === 'running') {
+          await this.lifecycle.updateStep(run, step, { status: 'abandoned', error });
+        }
+      }
+      return await this.lifecycle.updateRun(run, {
+        status: 'abandoned',
+        error,
+        metadata: { ...run.metadata, abandoned: { reason: 'inactivity', timeoutMs, lastActivityAt } }
+      });
+    } catch (caught) {
+      // Finished, deleted or swept by another instance since it was found
+      if (caught instanceof StateConflictError || caught instanceof NotFoundError) {
+        return null;
+      }
+      throw caught;
+    }
+  }
+}
+
+/**
+ * A timeout in the largest whole unit (90000 -> "90s", 3600000 -> "1h")
+ */
+function formatDuration(ms: number): string {
+  const units: [string, number][] = [['h', 3600000], ['m', 60000], ['s', 1000]];
+  for (const [unit, size] of units) {
+    if (ms >= size && ms % size === 0) {
+      return `${ms / size}${unit}`;
+    }
+  }
+  return `${ms}ms`;
+}
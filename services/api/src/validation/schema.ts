@@ -0,0 +1,239 @@
+/**
+ * Request Schemas
+ *
+ * A small declarative validator for request bodies and query strings.
+ * Object schemas are keyed by the fields of a @xray/shared type, so a schema
+ * cannot describe a field the type does not have, and fields a request sends
+ * that the schema does not list are rejected instead of reaching the database.
+ */
+
+import { ApiErrorDetail } from '@xray/shared';
+import { ValidationError } from '../repositories/base/errors';
+import { HttpError } from '../middleware/errors';
+
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'object' | 'array' | 'any';
+
+export interface FieldSchema {
+  type: FieldType;
+  required?: boolean;
+  nonEmpty?: boolean;            // Strings and arrays: at least one character / item
+  min?: number;                  // Numbers: inclusive lower bound
+  max?: number;                  // Numbers: inclusive upper bound
+  enum?: readonly string[];
+  items?: FieldSchema;           // Arrays: schema of every item
+  fields?: ObjectSchema<any>;    // Objects: a nested schema (any keys when absent)
+}
+
+/**
+ * Field schemas keyed by the fields of T
+ */
+export type ObjectSchema<T> = { [K in keyof T]?: FieldSchema };
+
+export interface ValidateOptions {
+  partial?: boolean;             // Updates: required fields may be left out
+  writable?: readonly string[];  // Only these top-level fields may be sent; others "cannot be updated"
+}
+
+/**
+ * Checks a value against an object schema
+ * Optional fields may be null; unknown fields are reported, not dropped
+ *
+ * @param value - Parsed request body (or part of one)
+ * @param schema - Field schemas
+ * @param path - Path of value within the request, prefixed to every detail
+ * @returns One detail per problem (empty if valid)
+ */
+export function validate<T>(
+  value: unknown,
+  schema: ObjectSchema<T>,
+  path: string = '',
+  options: ValidateOptions = {}
+): ApiErrorDetail[] {
+  if (!isObject(value)) {
+    return [{ path: path || 'body', message: 'must be an object' }];
+  }
+
+  const details: ApiErrorDetail[] = [];
+  const fields = schema as Record<string, FieldSchema | undefined>;
+
+  for (const key of Object.keys(value)) {
+    if (!fields[key]) {
+      details.push({ path: join(path, key), message: 'is not a known field' });
+    } else if (options.writable && !options.writable.includes(key)) {
+      details.push({ path: join(path, key), message: 'cannot be updated' });
+    }
+  }
+
+  for (const [key, field] of Object.entries(fields)) {
+    if (!field || (options.writable && !options.writable.includes(key))) {
+      continue;
+    }
+    const fieldValue = value[key];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (field.required && !options.partial) {
+        details.push({ path: join(path, key), message: 'is required' });
+      } else if (fieldValue === null && field.required) {
+        details.push({ path: join(path, key), message: 'cannot be null' });
+      }
+      continue;
+    }
+    details.push(...validateField(fieldValue, field, join(path, key)));
+  }
+
+  return details;
+}
+
+/**
+ * Validates a request body (or the part of one at path) against a schema
+ * @throws ValidationError (422) listing every problem
+ */
+export function assertValid<T>(
+  value: unknown,
+  schema: ObjectSchema<T>,
+  options: ValidateOptions = {},
+  path: string = ''
+): T {
+  const details = validate(value, schema, path, options);
+  if (details.length > 0) {
+    throw invalid(details);
+  }
+  return value as T;
+}
+
+/**
+ * The ValidationError for a list of problems
+ */
+export function invalid(details: ApiErrorDetail[]): ValidationError {
+  return new ValidationError(
+    `Request failed validation (${details.length} error${details.length === 1 ? '' : 's'})`,
+    details
+  );
+}
+
+function validateField(value: unknown, field: FieldSchema, path: string): ApiErrorDetail[] {
+  switch (field.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return [{ path, message: 'must be a string' }];
+      }
+      if (field.nonEmpty && value.trim().length === 0) {
+        return [{ path, message: 'must not be empty' }];
+      }
+      if (field.enum && !field.enum.includes(value)) {
+        return [{ path, message: `must be one of ${field.enum.join(', ')}` }];
+      }
+      return [];
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [{ path, message: 'must be a number' }];
+      }
+      if (field.type === 'integer' && !Number.isInteger(value)) {
+        return [{ path, message: 'must be an integer' }];
+      }
+      return checkRange(value, field, path);
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ path, message: 'must be a boolean' }];
+    case 'date':
+      return (typeof value === 'string' || value instanceof Date) && !Number.isNaN(new Date(value).getTime())
+        ? []
+        : [{ path, message: 'must be an ISO 8601 date' }];
+    case 'object':
+      if (field.fields) {
+        return validate(value, field.fields, path);
+      }
+      return isObject(value) ? [] : [{ path, message: 'must be an object' }];
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [{ path, message: 'must be an array' }];
+      }
+      if (field.nonEmpty && value.length === 0) {
+        return [{ path, message: 'must not be empty' }];
+      }
+      const items = field.items;
+      return items ? value.flatMap((item, i) => validateField(item, items, `${path}[${i}]`)) : [];
+    }
+    case 'any':
+      return [];
+  }
+}
+
+function checkRange(value: number, field: FieldSchema, path: string): ApiErrorDetail[] {
+  if (field.min !== undefined && value < field.min) {
+    return [{ path, message: `must be at least ${field.min}` }];
+  }
+  if (field.max !== undefined && value > field.max) {
+    return [{ path, message: `must be at most ${field.max}` }];
+  }
+  return [];
+}
+
+// ============================================================================
+// Query strings
+// ============================================================================
+
+export interface QueryFieldSchema {
+  type: 'string' | 'number' | 'integer';
+  min?: number;
+  max?: number;
+  enum?: readonly string[];
+}
+
+/**
+ * Query parameter schemas keyed by the fields of T
+ */
+export type QuerySchema<T> = { [K in keyof T]?: QueryFieldSchema };
+
+/**
+ * Parses a query string into typed values; parameters not in the schema are ignored
+ * @throws HttpError (400) listing every malformed parameter
+ */
+export function parseQuery<T>(query: Record<string, unknown>, schema: QuerySchema<T>): Partial<T> {
+  const parsed: Record<string, string | number> = {};
+  const details: ApiErrorDetail[] = [];
+
+  for (const [key, field] of Object.entries(schema as Record<string, QueryFieldSchema | undefined>)) {
+    const raw = query[key];
+    if (raw === undefined || raw === '' || !field) {
+      continue;
+    }
+    if (typeof raw !== 'string') {
+      details.push({ path: key, message: 'must be given once' });
+      continue;
+    }
+
+    if (field.type === 'string') {
+      if (field.enum && !field.enum.includes(raw)) {
+        details.push({ path: key, message: `must be one of ${field.enum.join(', ')}` });
+      } else {
+        parsed[key] = raw;
+      }
+      continue;
+    }
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || (field.type === 'integer' && !Number.isInteger(value))) {
+      details.push({ path: key, message: `must be ${field.type === 'integer' ? 'an integer' : 'a number'}` });
+      continue;
+    }
+    const rangeProblems = checkRange(value, field, key);
+    if (rangeProblems.length > 0) {
+      details.push(...rangeProblems);
+    } else {
+      parsed[key] = value;
+    }
+  }
+
+  if (details.length > 0) {
+    throw new HttpError(400, 'invalid_request', 'Invalid query parameters', details);
+  }
+  return parsed as Partial<T>;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
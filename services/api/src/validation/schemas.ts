@@ -0,0 +1,212 @@
+/**
+ * Resource Schemas
+ *
+ * Request bodies of every ingest and admin route, described field by field
+ * against the @xray/shared types, plus the fields each resource lets an
+ * update change. Fields the API sets itself (projectId, a child's stepId)
+ * are not part of any request.
+ */
+
+import {
+  Run, Step, Candidate, Filter, LLMCall, LLMMessage, ApiKey, Project,
+  BulkRunPayload, BulkStepPayload
+} from '@xray/shared';
+import { ObjectSchema, FieldSchema, QuerySchema } from './schema';
+import { RunFilters, StepFilters, CandidateFilters, LLMCallFilters } from '../repositories/base/QueryFilters';
+import { API_KEY_ROLES } from '../middleware/auth';
+
+export const RUN_STATUSES = ['running', 'completed', 'failed', 'abandoned'] as const;
+export const CANDIDATE_STATUSES = ['accepted', 'rejected', 'pending'] as const;
+
+const count: FieldSchema = { type: 'integer', min: 0 };
+const metadata: FieldSchema = { type: 'object' };
+
+// ============================================================================
+// Runs and steps
+// ============================================================================
+
+export const runSchema: ObjectSchema<Omit<Run, 'projectId'>> = {
+  id: { type: 'string', nonEmpty: true },
+  pipelineId: { type: 'string', required: true, nonEmpty: true },
+  pipelineVersion: { type: 'string' },
+  status: { type: 'string', enum: RUN_STATUSES },
+  startedAt: { type: 'date' },
+  completedAt: { type: 'date' },
+  metadata,
+  input: { type: 'any' },
+  output: { type: 'any' },
+  error: { type: 'string' },
+  sampleRate: { type: 'number', min: 0, max: 1 }
+};
+
+/**
+ * Fields PATCH /api/runs/:id (and updateRun events) may change
+ */
+export const RUN_UPDATABLE_FIELDS: (keyof Run)[] = [
+  'status', 'completedAt', 'output', 'error', 'metadata', 'sampleRate'
+];
+
+export const stepSchema: ObjectSchema<Step> = {
+  id: { type: 'string', nonEmpty: true },
+  runId: { type: 'string', required: true, nonEmpty: true },
+  parentStepId: { type: 'string', nonEmpty: true },
+  stepType: { type: 'string', required: true, nonEmpty: true },
+  stepIndex: { ...count, required: true },
+  status: { type: 'string', enum: RUN_STATUSES },
+  startedAt: { type: 'date' },
+  completedAt: { type: 'date' },
+  input: { type: 'any' },
+  output: { type: 'any' },
+  reasoning: { type: 'string' },
+  config: { type: 'object' },
+  inputCount: count,
+  outputCount: count,
+  durationMs: { type: 'number', min: 0 },
+  error: { type: 'string' },
+  metadata,
+  captureAllCandidates: { type: 'boolean' },
+  candidateSummary: { type: 'object' }
+};
+
+/**
+ * Fields PATCH /api/steps/:id (and updateStep events) may change
+ */
+export const STEP_UPDATABLE_FIELDS: (keyof Step)[] = [
+  'status', 'completedAt', 'output', 'error', 'reasoning', 'inputCount', 'outputCount',
+  'durationMs', 'candidateSummary', 'metadata'
+];
+
+// ============================================================================
+// Step children (the step comes from the URL or event)
+// ============================================================================
+
+export const candidateSchema: ObjectSchema<Omit<Candidate, 'stepId'>> = {
+  id: { type: 'string', nonEmpty: true },
+  candidateId: { type: 'string', required: true, nonEmpty: true },
+  status: { type: 'string', required: true, enum: CANDIDATE_STATUSES },
+  score: { type: 'number' },
+  reason: { type: 'string' },
+  filterId: { type: 'string' },
+  data: { type: 'object' },
+  metadata
+};
+
+export const candidatesSchema: ObjectSchema<{ candidates: Candidate[] }> = {
+  candidates: { type: 'array', required: true, items: { type: 'object', fields: candidateSchema } }
+};
+
+export const filterSchema: ObjectSchema<Omit<Filter, 'stepId'>> = {
+  id: { type: 'string', nonEmpty: true },
+  filterType: { type: 'string', required: true, nonEmpty: true },
+  config: { type: 'object' },
+  candidatesAffected: { ...count, required: true },
+  candidatesRejected: { ...count, required: true },
+  metadata
+};
+
+const llmMessageSchema: ObjectSchema<LLMMessage> = {
+  role: { type: 'string', required: true, nonEmpty: true },
+  content: { type: 'any' },
+  name: { type: 'string' }
+};
+
+export const llmCallSchema: ObjectSchema<Omit<LLMCall, 'stepId'>> = {
+  id: { type: 'string', nonEmpty: true },
+  provider: { type: 'string' },
+  model: { type: 'string', required: true, nonEmpty: true },
+  messages: { type: 'array', required: true, items: { type: 'object', fields: llmMessageSchema } },
+  completion: { type: 'string' },
+  parameters: { type: 'object' },
+  temperature: { type: 'number', min: 0 },
+  promptTokens: count,
+  completionTokens: count,
+  totalTokens: count,
+  latencyMs: { type: 'number', min: 0 },
+  costUsd: { type: 'number', min: 0 },
+  finishReason: { type: 'string' },
+  error: { type: 'string' },
+  startedAt: { type: 'date' },
+  metadata
+};
+
+// ============================================================================
+// Bulk runs
+// ============================================================================
+
+// A bulk step's run and parent come from where it sits in the tree
+const { runId, parentStepId, ...bulkStepFields } = stepSchema;
+
+export const bulkStepSchema: ObjectSchema<BulkStepPayload> = {
+  ...bulkStepFields,
+  stepIndex: count,   // Defaults to depth-first order
+  candidates: { type: 'array', items: { type: 'object', fields: candidateSchema } },
+  filters: { type: 'array', items: { type: 'object', fields: filterSchema } }
+};
+// Sub-steps have the same shape as their parent
+bulkStepSchema.children = { type: 'array', items: { type: 'object', fields: bulkStepSchema } };
+
+export const bulkRunSchema: ObjectSchema<BulkRunPayload> = {
+  ...runSchema,
+  steps: { type: 'array', items: { type: 'object', fields: bulkStepSchema } }
+};
+
+// ============================================================================
+// Projects and API keys
+// ============================================================================
+
+export const projectSchema: ObjectSchema<Omit<Project, 'createdAt'>> = {
+  id: { type: 'string', nonEmpty: true },
+  name: { type: 'string', required: true, nonEmpty: true }
+};
+
+export const apiKeySchema: ObjectSchema<Pick<ApiKey, 'name' | 'roles'>> = {
+  name: { type: 'string', required: true, nonEmpty: true },
+  roles: { type: 'array', required: true, nonEmpty: true, items: { type: 'string', enum: API_KEY_ROLES } }
+};
+
+/**
+ * Fields PATCH on a key may change
+ */
+export const API_KEY_UPDATABLE_FIELDS: (keyof ApiKey)[] = ['roles'];
+
+// ============================================================================
+// Query strings
+// ============================================================================
+
+const page: QuerySchema<{ limit: number; offset: number }> = {
+  limit: { type: 'integer', min: 1 },
+  offset: { type: 'integer', min: 0 }
+};
+
+export const runQuerySchema: QuerySchema<RunFilters> = {
+  pipelineId: { type: 'string' },
+  status: { type: 'string', enum: RUN_STATUSES },
+  ...page
+};
+
+export const stepQuerySchema: QuerySchema<StepFilters> = {
+  ...page
+};
+
+export const candidateQuerySchema: QuerySchema<CandidateFilters> = {
+  status: { type: 'string', enum: CANDIDATE_STATUSES },
+  reason: { type: 'string' },
+  filterId: { type: 'string' },
+  limit: page.limit
+};
+
+export const highEliminationQuerySchema: QuerySchema<{ threshold: number }> = {
+  threshold: { type: 'number', min: 0, max: 1 }
+};
+
+export const llmCallQuerySchema: QuerySchema<LLMCallFilters> = {
+  model: { type: 'string' },
+  provider: { type: 'string' },
+  finishReason: { type: 'string' },
+  completionContains: { type: 'string' },
+  promptContains: { type: 'string' },
+  pipelineId: { type: 'string' },
+  stepType: { type: 'string' },
+  runId: { type: 'string' },
+  ...page
+};
@@ -0,0 +1,291 @@
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import type { Express } from 'express';
+import request from 'supertest';
+import { ApiKey, ApiKeyRole, Run, Step } from '@xray/shared';
+import { ApiKeysRepository } from '../src/repositories/apiKeys';
+import { RunsRepository } from '../src/repositories/runs';
+import { StepsRepository } from '../src/repositories/steps';
+import { CandidatesRepository } from '../src/repositories/candidates';
+import { FiltersRepository } from '../src/repositories/filters';
+import { LLMCallsRepository } from '../src/repositories/llmCalls';
+import { ProjectsRepository } from '../src/repositories/projects';
+import type { Permission } from '../src/middleware/auth';
+
+const ADMIN_TOKEN = 'operator-token';
+
+/**
+ * One key per role, each for project p1; any other key is unknown until issued
+ */
+const KEYS: Record<ApiKeyRole, string> = {
+  reader: 'xr_reader',
+  writer: 'xr_writer',
+  admin: 'xr_admin'
+};
+
+/**
+ * Stored keys by the key itself, standing in for the api_keys table
+ */
+const apiKeys = new Map<string, ApiKey>();
+
+function storeKey(key: string, projectId: string, roles: ApiKeyRole[]): ApiKey {
+  const apiKey: ApiKey = {
+    id: `key-${apiKeys.size + 1}`,
+    projectId,
+    name: roles.join('+'),
+    roles,
+    keyPrefix: key.slice(0, 6),
+    createdAt: new Date()
+  };
+  apiKeys.set(key, apiKey);
+  return apiKey;
+}
+
+function storedKey(id: string): ApiKey | null {
+  return [...apiKeys.values()].find(apiKey => apiKey.id === id) ?? null;
+}
+
+const RUN: Run = {
+  id: 'run-1',
+  projectId: 'p1',
+  pipelineId: 'competitor-selection',
+  status: 'running',
+  startedAt: new Date(),
+  metadata: {},
+  input: {}
+};
+
+const STEP: Step = {
+  id: 'step-1',
+  runId: 'run-1',
+  stepType: 'filtering',
+  stepIndex: 0,
+  status: 'running',
+  startedAt: new Date(),
+  metadata: {},
+  input: {},
+  captureAllCandidates: false
+};
+
+/**
+ * A route per permission kind, with a body it accepts
+ */
+const ROUTES: { permission: Permission; method: 'get' | 'post' | 'patch' | 'delete'; path: string; body?: object }[] = [
+  { permission: 'read', method: 'get', path: '/api/runs' },
+  { permission: 'read', method: 'get', path: '/api/llm-calls' },
+  { permission: 'read', method: 'get', path: '/api/steps/step-1' },
+  { permission: 'read', method: 'get', path: '/api/steps/step-1/candidates' },
+  { permission: 'write', method: 'post', path: '/api/runs', body: { pipelineId: 'competitor-selection', input: {} } },
+  { permission: 'write', method: 'post', path: '/api/events', body: { events: [] } },
+  { permission: 'write', method: 'post', path: '/api/steps', body: { runId: 'run-1', stepType: 'filtering', stepIndex: 0 } },
+  { permission: 'write', method: 'post', path: '/api/steps/step-1/candidates', body: { candidates: [] } },
+  { permission: 'admin', method: 'get', path: '/api/keys' },
+  { permission: 'admin', method: 'post', path: '/api/keys', body: { name: 'pipeline', roles: ['writer'] } },
+  { permission: 'admin', method: 'delete', path: '/api/runs/run-1' }
+];
+
+const GRANTS: Record<ApiKeyRole, Permission[]> = {
+  reader: ['read'],
+  writer: ['write'],
+  admin: ['read', 'write', 'admin']
+};
+
+let app: Express;
+
+function send(route: typeof ROUTES[number], headers: Record<string, string> = {}) {
+  const req = request(app)[route.method](route.path).set(headers);
+  return route.body ? req.send(route.body) : req;
+}
+
+// The repositories stand in for the database; the app is loaded after the
+// operator token is set, since adminAuth reads it when the routes are mounted
+beforeAll(async () => {
+  process.env.API_ADMIN_TOKEN = ADMIN_TOKEN;
+  process.env.API_AUTH_DISABLED = 'false';
+
+  for (const role of Object.keys(KEYS) as ApiKeyRole[]) {
+    storeKey(KEYS[role], 'p1', [role]);
+  }
+  storeKey('xr_other', 'p2', ['admin']);
+
+  jest.spyOn(ApiKeysRepository.prototype, 'findActiveByKey').mockImplementation(async key => {
+    const apiKey = apiKeys.get(key);
+    return apiKey && !apiKey.revokedAt ? { ...apiKey } : null;
+  });
+  jest.spyOn(ApiKeysRepository.prototype, 'findById').mockImplementation(async id => storedKey(id));
+  jest.spyOn(ApiKeysRepository.prototype, 'findByProjectId').mockImplementation(async projectId =>
+    [...apiKeys.values()].filter(apiKey => apiKey.projectId === projectId)
+  );
+  jest.spyOn(ApiKeysRepository.prototype, 'issue').mockImplementation(async (projectId, name, roles) => {
+    const key = `xr_issued_${apiKeys.size + 1}`;
+    return { apiKey: storeKey(key, projectId, roles), key };
+  });
+  jest.spyOn(ApiKeysRepository.prototype, 'setRoles').mockImplementation(async (id, roles) => {
+    const apiKey = storedKey(id);
+    if (apiKey) {
+      apiKey.roles = roles;
+    }
+    return apiKey;
+  });
+  jest.spyOn(ApiKeysRepository.prototype, 'revoke').mockImplementation(async id => {
+    const apiKey = storedKey(id);
+    if (apiKey) {
+      apiKey.revokedAt ??= new Date();
+    }
+    return apiKey;
+  });
+  jest.spyOn(ApiKeysRepository.prototype, 'touch').mockResolvedValue();
+  jest.spyOn(RunsRepository.prototype, 'findAll').mockResolvedValue([]);
+  jest.spyOn(RunsRepository.prototype, 'findById').mockResolvedValue(RUN);
+  jest.spyOn(RunsRepository.prototype, 'create').mockResolvedValue(RUN);
+  jest.spyOn(RunsRepository.prototype, 'delete').mockResolvedValue(true);
+  jest.spyOn(RunsRepository.prototype, 'recordHeartbeat').mockResolvedValue(RUN);
+  jest.spyOn(StepsRepository.prototype, 'findById').mockResolvedValue(STEP);
+  jest.spyOn(StepsRepository.prototype, 'create').mockResolvedValue(STEP);
+  jest.spyOn(CandidatesRepository.prototype, 'findByStepId').mockResolvedValue([]);
+  jest.spyOn(CandidatesRepository.prototype, 'createMany').mockResolvedValue([]);
+  jest.spyOn(FiltersRepository.prototype, 'findByStepId').mockResolvedValue([]);
+  jest.spyOn(LLMCallsRepository.prototype, 'findByStepId').mockResolvedValue([]);
+  jest.spyOn(LLMCallsRepository.prototype, 'search').mockResolvedValue([]);
+  jest.spyOn(ProjectsRepository.prototype, 'findAll').mockResolvedValue([]);
+
+  app = (await import('../src/server')).default;
+});
+
+describe('API key authentication', () => {
+  it.each(ROUTES)('rejects $method $path without a key with 401', async route => {
+    const res = await send(route);
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('unauthorized');
+  });
+
+  it.each(ROUTES)('rejects $method $path with an unknown key with 401', async route => {
+    const res = await send(route, { 'X-API-Key': 'xr_unknown' });
+
+    expect(res.status).toBe(401);
+    expect(res.body.message).toBe('Invalid or revoked API key');
+  });
+
+  it('accepts the key as a bearer token or in X-API-Key', async () => {
+    await request(app).get('/api/runs').set('Authorization', `Bearer ${KEYS.reader}`).expect(200);
+    await request(app).get('/api/runs').set('X-API-Key', KEYS.reader).expect(200);
+  });
+});
+
+describe.each(Object.keys(KEYS) as ApiKeyRole[])('%s key', role => {
+  const allowed = ROUTES.filter(route => GRANTS[role].includes(route.permission));
+  const denied = ROUTES.filter(route => !GRANTS[role].includes(route.permission));
+
+  if (allowed.length > 0) {
+    it.each(allowed)('may $method $path ($permission)', async route => {
+      const res = await send(route, { Authorization: `Bearer ${KEYS[role]}` });
+
+      expect(res.status).toBeGreaterThanOrEqual(200);
+      expect(res.status).toBeLessThan(300);
+    });
+  }
+
+  if (denied.length > 0) {
+    it.each(denied)('may not $method $path ($permission) and gets 403', async route => {
+      const res = await send(route, { Authorization: `Bearer ${KEYS[role]}` });
+
+      expect(res.status).toBe(403);
+      expect(res.body.code).toBe('forbidden');
+      expect(res.body.message).toContain(`'${route.permission}'`);
+    });
+  }
+});
+
+describe('key management', () => {
+  const asAdmin = { Authorization: `Bearer ${KEYS.admin}` };
+
+  async function issueKey(roles: ApiKeyRole[]): Promise<{ id: string; key: string }> {
+    const res = await request(app).post('/api/keys').set(asAdmin).send({ name: 'pipeline', roles });
+    expect(res.status).toBe(201);
+    expect(res.body.roles).toEqual(roles);
+    return res.body;
+  }
+
+  it('issues a key that works with its roles right away', async () => {
+    const { key } = await issueKey(['writer']);
+
+    await request(app).post('/api/events').set('X-API-Key', key).send({ events: [] }).expect(200);
+    await request(app).get('/api/runs').set('X-API-Key', key).expect(403);
+  });
+
+  it('takes a permission away when the key is demoted', async () => {
+    const { id, key } = await issueKey(['writer']);
+
+    const res = await request(app).patch(`/api/keys/${id}`).set(asAdmin).send({ roles: ['reader'] });
+    expect(res.status).toBe(200);
+    expect(res.body.roles).toEqual(['reader']);
+
+    const write = await request(app).post('/api/events').set('X-API-Key', key).send({ events: [] });
+    expect(write.status).toBe(403);
+    expect(write.body.code).toBe('forbidden');
+    await request(app).get('/api/runs').set('X-API-Key', key).expect(200);
+  });
+
+  it('rejects a revoked key with 401', async () => {
+    const { id, key } = await issueKey(['reader']);
+    await request(app).get('/api/runs').set('X-API-Key', key).expect(200);
+
+    const res = await request(app).delete(`/api/keys/${id}`).set(asAdmin);
+    expect(res.status).toBe(200);
+    expect(res.body.revokedAt).toBeDefined();
+
+    const read = await request(app).get('/api/runs').set('X-API-Key', key);
+    expect(read.status).toBe(401);
+    expect(read.body.message).toBe('Invalid or revoked API key');
+  });
+
+  it('rejects role changes and revocation by non-admin keys with 403', async () => {
+    const { id } = await issueKey(['reader']);
+
+    await request(app).patch(`/api/keys/${id}`).set('X-API-Key', KEYS.writer).send({ roles: ['admin'] }).expect(403);
+    await request(app).delete(`/api/keys/${id}`).set('X-API-Key', KEYS.reader).expect(403);
+    expect(storedKey(id)).toMatchObject({ roles: ['reader'] });
+    expect(storedKey(id)?.revokedAt).toBeUndefined();
+  });
+
+  it('reports keys of another project as not found', async () => {
+    const other = apiKeys.get('xr_other')!;
+
+    await request(app).patch(`/api/keys/${other.id}`).set(asAdmin).send({ roles: ['reader'] }).expect(404);
+    await request(app).delete(`/api/keys/${other.id}`).set(asAdmin).expect(404);
+    expect(other.revokedAt).toBeUndefined();
+  });
+});
+
+describe('operator routes', () => {
+  it('accept the operator token', async () => {
+    await request(app).get('/api/admin/projects').set('Authorization', `Bearer ${ADMIN_TOKEN}`).expect(200);
+  });
+
+  it('create a project with a generated ID when the body has none', async () => {
+    jest.spyOn(ProjectsRepository.prototype, 'findByName').mockResolvedValue(null);
+    // Stands in for the insert, returning what would be stored
+    jest.spyOn(ProjectsRepository.prototype as any, 'saveNew').mockImplementation(async data => data);
+
+    const res = await request(app)
+      .post('/api/admin/projects')
+      .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+      .send({ name: 'search-team' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.name).toBe('search-team');
+    expect(res.body.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('reject requests without the operator token with 401', async () => {
+    await request(app).get('/api/admin/projects').expect(401);
+    await request(app).get('/api/admin/projects').set('Authorization', 'Bearer wrong-token').expect(401);
+  });
+
+  it('reject API keys, even with the admin role, with 401', async () => {
+    const res = await request(app).get('/api/admin/projects').set('Authorization', `Bearer ${KEYS.admin}`);
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('unauthorized');
+  });
+});
@@ -3,18 +3,84 @@
  * Handles communication with the X-Ray API backend
  */
 
-import axios, { AxiosInstance } from 'axios';
-import { Run, Step, Candidate, Filter } from '@xray/shared';
+import axios, { AxiosInstance, AxiosRequestConfig, isAxiosError } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Run,
+  Step,
+  Candidate,
+  Filter,
+  LLMCall,
+  BulkRunPayload,
+  BulkRunResult,
+  IngestEvent,
+  IngestEventResult
+} from '@xray/shared';
+
+export interface RetryOptions {
+  maxAttempts?: number;  // Total attempts, including the first (default: 3)
+  baseDelayMs?: number;  // Delay before the first retry, doubled per attempt (default: 200)
+  maxDelayMs?: number;   // Upper bound for a single delay (default: 5000)
+  jitter?: boolean;      // Randomize each delay between 0 and the backoff (default: true)
+}
+
+export interface RetryEvent {
+  method: string;
+  url: string;
+  attempt: number;       // Attempt that just failed (1-based)
+  maxAttempts: number;
+  error: unknown;
+  delayMs?: number;      // Wait before the next attempt (onRetry only)
+}
 
 export interface XRayClientConfig {
   apiUrl: string;
+  apiKey?: string;                          // Sent as Authorization: Bearer <key>; selects the project
   timeout?: number;
-  retryOnFailure?: boolean;
+  retryOnFailure?: boolean | RetryOptions;
+  onRetry?: (event: RetryEvent) => void;    // Called before each retry
+  onFailure?: (event: RetryEvent) => void;  // Called when a request fails for good
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 5000,
+  jitter: true
+};
+
+/**
+ * Whether a failed request is worth retrying later:
+ * network errors, timeouts, 429 and 5xx responses are; other 4xx responses are not.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Retry-After header in milliseconds (delta-seconds or HTTP-date)
+ */
+function retryAfterMs(error: unknown): number | undefined {
+  const header = isAxiosError(error) ? error.response?.headers?.['retry-after'] : undefined;
+  if (header === undefined || header === null || header === '') {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
 }
 
 export class XRayClient {
   private client: AxiosInstance;
   private config: XRayClientConfig;
+  private retry: Required<RetryOptions>;
 
   constructor(config: XRayClientConfig) {
     this.config = {
@@ -23,43 +89,123 @@ export class XRayClient {
       ...config
     };
 
+    const { retryOnFailure } = this.config;
+    this.retry = retryOnFailure
+      ? { ...DEFAULT_RETRY, ...(typeof retryOnFailure === 'object' ? retryOnFailure : {}) }
+      : { ...DEFAULT_RETRY, maxAttempts: 1 };
+
     this.client = axios.create({
       baseURL: config.apiUrl.endsWith('/') ? config.apiUrl.slice(0, -1) : config.apiUrl,
       timeout: this.config.timeout,
       headers: {
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
       }
     });
   }
 
-  async createRun(run: Omit<Run, 'id' | 'startedAt' | 'status'>): Promise<Run> {
-    const response = await this.client.post<Run>('/api/runs', run);
-    return response.data;
+  /**
+   * Runs, steps and candidates may carry a client-generated id;
+   * the API then treats a repeated create as a no-op instead of a duplicate
+   */
+  async createRun(run: Omit<Run, 'id' | 'status'> & { id?: string }): Promise<Run> {
+    return this.request<Run>({ method: 'post', url: '/api/runs', data: run });
+  }
+
+  /**
+   * Create a complete run (steps, sub-steps, candidates, filters) in one request
+   * The API stores it in a single transaction or rejects it entirely
+   */
+  async createRunBulk(run: BulkRunPayload): Promise<BulkRunResult> {
+    return this.request<BulkRunResult>({ method: 'post', url: '/api/runs/bulk', data: run });
   }
 
   async updateRun(runId: string, updates: Partial<Run>): Promise<Run> {
-    const response = await this.client.patch<Run>(`/api/runs/${runId}`, updates);
-    return response.data;
+    return this.request<Run>({ method: 'patch', url: `/api/runs/${runId}`, data: updates });
+  }
+
+  /**
+   * Report a running run as alive, so the API does not abandon it as stuck
+   */
+  async heartbeat(runId: string): Promise<Run> {
+    return this.request<Run>({ method: 'post', url: `/api/runs/${runId}/heartbeat` });
   }
 
-  async createStep(step: Omit<Step, 'id' | 'startedAt' | 'status'>): Promise<Step> {
-    const response = await this.client.post<Step>('/api/steps', step);
-    return response.data;
+  async createStep(step: Omit<Step, 'id' | 'status'> & { id?: string }): Promise<Step> {
+    return this.request<Step>({ method: 'post', url: '/api/steps', data: step });
   }
 
   async updateStep(stepId: string, updates: Partial<Step>): Promise<Step> {
-    const response = await this.client.patch<Step>(`/api/steps/${stepId}`, updates);
-    return response.data;
+    return this.request<Step>({ method: 'patch', url: `/api/steps/${stepId}`, data: updates });
   }
 
-  async createCandidates(stepId: string, candidates: Omit<Candidate, 'id' | 'stepId'>[]): Promise<Candidate[]> {
-    const response = await this.client.post<Candidate[]>(`/api/steps/${stepId}/candidates`, { candidates });
-    return response.data;
+  async createCandidates(
+    stepId: string,
+    candidates: (Omit<Candidate, 'id' | 'stepId'> & { id?: string })[]
+  ): Promise<Candidate[]> {
+    return this.request<Candidate[]>({ method: 'post', url: `/api/steps/${stepId}/candidates`, data: { candidates } });
   }
 
-  async createFilter(stepId: string, filter: Omit<Filter, 'id' | 'stepId'>): Promise<Filter> {
-    const response = await this.client.post<Filter>(`/api/steps/${stepId}/filters`, filter);
-    return response.data;
+  async createFilter(stepId: string, filter: Omit<Filter, 'stepId'>): Promise<Filter> {
+    return this.request<Filter>({ method: 'post', url: `/api/steps/${stepId}/filters`, data: filter });
+  }
+
+  async createLLMCall(stepId: string, call: Omit<LLMCall, 'stepId'>): Promise<LLMCall> {
+    return this.request<LLMCall>({ method: 'post', url: `/api/steps/${stepId}/llm-calls`, data: call });
+  }
+
+  /**
+   * Send a batch of events, applied by the API in order
+   * @returns One result per event; a failed event does not fail the batch
+   */
+  async sendEvents(events: IngestEvent[]): Promise<IngestEventResult[]> {
+    const response = await this.request<{ results: IngestEventResult[] }>({
+      method: 'post',
+      url: '/api/events',
+      data: { events }
+    });
+    return response.results;
   }
-}
 
+  /**
+   * Send a request, retrying transient failures with exponential backoff
+   * POSTs carry one Idempotency-Key for all attempts, so a retry of a request
+   * the server already applied returns the original response instead of duplicating it
+   */
+  private async request<T>(request: AxiosRequestConfig & { method: string; url: string }): Promise<T> {
+    const { maxAttempts } = this.retry;
+    const headers = request.method === 'post' ? { 'Idempotency-Key': uuidv4() } : undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.client.request<T>({ ...request, headers });
+        return response.data;
+      } catch (error) {
+        const event: RetryEvent = { method: request.method.toUpperCase(), url: request.url, attempt, maxAttempts, error };
+
+        if (attempt >= maxAttempts || !isTransientError(error)) {
+          this.config.onFailure?.(event);
+          throw error;
+        }
+
+        event.delayMs = this.retryDelay(attempt, error);
+        this.config.onRetry?.(event);
+        await new Promise(resolve => setTimeout(resolve, event.delayMs));
+      }
+    }
+  }
+
+  /**
+   * Backoff before retrying after the given attempt
+   * A Retry-After header from the server takes precedence
+   */
+  private retryDelay(attempt: number, error: unknown): number {
+    const retryAfter = retryAfterMs(error);
+    if (retryAfter !== undefined) {
+      return retryAfter;
+    }
+    const { baseDelayMs, maxDelayMs, jitter } = this.retry;
+    const backoff = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+    return jitter ? Math.floor(Math.random() * backoff) : backoff;
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * X-Ray SDK - File Transport
+ * Writes events to a local newline-delimited JSON file instead of sending
+ * them, for pipelines that run without network access to the API. The file
+ * is imported later (npm run import, or POST /api/import); IDs are
+ * client-generated, so importing it twice is harmless.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SpoolEvent } from './spool';
+import { XRayLogger } from './logger';
+
+export class FileTransport {
+  private filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+  private logger: XRayLogger;
+
+  /**
+   * @param filePath - Events are appended, so one file can collect many processes' runs in turn
+   * @param logger - Where write failures are reported
+   */
+  constructor(filePath: string, logger: XRayLogger = console) {
+    this.filePath = filePath;
+    this.logger = logger;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  /**
+   * Append an event as one line; writes happen in call order
+   */
+  append(event: SpoolEvent): Promise<void> {
+    this.writeChain = this.writeChain
+      .then(() => fs.promises.appendFile(this.filePath, JSON.stringify(event) + '\n'))
+      .catch(error => this.logger.warn('[X-Ray] Failed to write event file:', error.message));
+    return this.writeChain;
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  flush(): Promise<void> {
+    return this.writeChain;
+  }
+}
@@ -2,8 +2,38 @@
  * X-Ray SDK - Public API
  */
 
-export { XRay } from './xray';
-export { XRayClient } from './client';
+export { XRay, XRayConfig } from './xray';
+export { RunHandle } from './run';
+export { FilterRule } from './rules';
+export {
+  SamplingStrategies,
+  seededRandom,
+  nearBoundary,
+  stratifiedByReason,
+  alwaysInclude
+} from './sampling';
+export { XRayClient, RetryOptions, RetryEvent } from './client';
+export { BufferConfig } from './transport';
+export { XRayLogger, silentLogger } from './logger';
+export { TraceSamplingPolicy, TraceKeptBy } from './tracesampling';
+export {
+  Redactor,
+  RedactionPolicy,
+  RedactionRule,
+  RedactionAction,
+  RedactionPatterns
+} from './redaction';
+export { Truncator, PayloadLimits, TRUNCATION_MARKER } from './limits';
+export { OTelOptions } from './otel';
+export {
+  XRayRecorder,
+  MemoryTransport,
+  RunAssertion,
+  StepAssertion,
+  XRayAssertionError,
+  RecordedRun,
+  RecordedStep
+} from './testing';
 export * from '@xray/shared';
 export { CommonStepTypes } from '@xray/shared';
 
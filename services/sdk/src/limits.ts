@@ -0,0 +1,163 @@
+/**
+ * X-Ray SDK - Payload Size Limits
+ * Keeps oversized content fields (a 40 MB embedding in a step output) from
+ * failing the whole request. Fields over their byte limit are truncated and
+ * marked with what was cut, so the stored record says it is incomplete.
+ */
+
+import { createHash } from 'crypto';
+import { SpoolEvent } from './spool';
+import { CONTENT_FIELDS } from './redaction';
+
+export interface PayloadLimits {
+  maxFieldBytes?: number;            // Limit for any content field, as serialized JSON (default: 1 MiB)
+  fields?: Record<string, number>;   // Per-field limits by name: input, output, data, metadata, config, ...
+}
+
+/**
+ * Key of the marker object that replaces cut array elements or whole values
+ */
+export const TRUNCATION_MARKER = '$truncated';
+
+const DEFAULT_MAX_FIELD_BYTES = 1024 * 1024;
+const MARKER_BYTES = 160;   // Room reserved for a marker
+
+export class Truncator {
+  private limits: PayloadLimits;
+
+  constructor(limits: PayloadLimits = {}) {
+    this.limits = limits;
+  }
+
+  /**
+   * Truncate the content fields of an event to their limits
+   * @returns The event (copied if anything changed) and the fields truncated,
+   *          labelled by record type ('output', 'candidate.data', ...)
+   */
+  truncateEvent(event: SpoolEvent): { event: SpoolEvent; truncated: string[] } {
+    const truncated: string[] = [];
+    const fit = <T extends Record<string, any>>(record: T, fields: string[], label = ''): T => {
+      let result = record;
+      for (const field of fields) {
+        const value = record[field];
+        if (value === undefined) {
+          continue;
+        }
+        const cut = truncateToBytes(value, this.limitFor(field));
+        if (cut !== value) {
+          result = { ...result, [field]: cut };
+          truncated.push(label + field);
+        }
+      }
+      return result;
+    };
+
+    switch (event.type) {
+      case 'createRun':
+      case 'updateRun':
+        return { event: { ...event, data: fit(event.data, CONTENT_FIELDS.run) } as SpoolEvent, truncated };
+      case 'createStep':
+      case 'updateStep':
+        return { event: { ...event, data: fit(event.data, CONTENT_FIELDS.step) } as SpoolEvent, truncated };
+      case 'createCandidates':
+        return {
+          event: { ...event, data: event.data.map(c => fit(c, CONTENT_FIELDS.candidate, 'candidate.')) },
+          truncated
+        };
+      case 'createFilter':
+        return { event: { ...event, data: fit(event.data, CONTENT_FIELDS.filter, 'filter.') }, truncated };
+      case 'createLLMCall':
+        return { event: { ...event, data: fit(event.data, CONTENT_FIELDS.llmCall, 'llmCall.') }, truncated };
+    }
+  }
+
+  private limitFor(field: string): number {
+    return this.limits.fields?.[field] ?? this.limits.maxFieldBytes ?? DEFAULT_MAX_FIELD_BYTES;
+  }
+}
+
+/**
+ * Add truncated field labels to a metadata.truncation tally
+ */
+export function countTruncations(
+  tally: { count: number; fields: Record<string, number> } | undefined,
+  truncated: string[]
+): { count: number; fields: Record<string, number> } {
+  const fields = { ...(tally?.fields || {}) };
+  for (const field of truncated) {
+    fields[field] = (fields[field] || 0) + 1;
+  }
+  return { count: (tally?.count || 0) + truncated.length, fields };
+}
+
+/**
+ * Shrink a JSON value to at most budget bytes (returns the same value if it fits)
+ * - strings keep a prefix and end with a note of what was cut
+ * - arrays keep leading elements and end with a { $truncated } marker element
+ * - objects shrink their largest members first
+ * - anything that still does not fit becomes a { $truncated } marker object
+ */
+function truncateToBytes(value: unknown, budget: number): unknown {
+  const json = JSON.stringify(value);
+  if (json === undefined) {
+    return value;
+  }
+  const size = Buffer.byteLength(json);
+  if (size <= budget) {
+    return value;
+  }
+
+  const marker = { originalBytes: size, sha256: createHash('sha256').update(json).digest('hex').slice(0, 16) };
+  const room = budget - MARKER_BYTES;
+
+  if (typeof value === 'string' && room > 0) {
+    const kept = sliceToBytes(value, room);
+    return `${kept}…[truncated ${value.length - kept.length} of ${value.length} chars, sha256:${marker.sha256}]`;
+  }
+
+  if (Array.isArray(value) && room > 0) {
+    const kept: unknown[] = [];
+    let used = 2;
+    for (const item of value) {
+      const itemBytes = Buffer.byteLength(JSON.stringify(item) ?? 'null') + 1;
+      if (used + itemBytes > room) {
+        break;
+      }
+      kept.push(item);
+      used += itemBytes;
+    }
+    return [...kept, { [TRUNCATION_MARKER]: { originalLength: value.length, keptLength: kept.length, ...marker } }];
+  }
+
+  if (isPlainObject(value) && room > 0) {
+    // Smallest members first, each within an equal share of what is left,
+    // so unused room flows to the larger members
+    const entries = Object.entries(value)
+      .map(([key, child]) => ({ key, child, bytes: Buffer.byteLength(JSON.stringify(child) ?? '') }))
+      .sort((a, b) => a.bytes - b.bytes);
+    const result: Record<string, unknown> = {};
+    let remaining = room - 2;
+    entries.forEach(({ key, child, bytes }, i) => {
+      const keyBytes = Buffer.byteLength(JSON.stringify(key)) + 2;
+      const share = Math.floor(remaining / (entries.length - i)) - keyBytes;
+      result[key] = bytes <= share ? child : truncateToBytes(child, Math.max(share, 0));
+      remaining -= keyBytes + Buffer.byteLength(JSON.stringify(result[key]) ?? '');
+    });
+    if (Buffer.byteLength(JSON.stringify(result)) <= budget) {
+      return result;
+    }
+  }
+
+  return { [TRUNCATION_MARKER]: marker };
+}
+
+/**
+ * Longest prefix of a string that fits in the given number of UTF-8 bytes
+ */
+function sliceToBytes(value: string, bytes: number): string {
+  return Buffer.from(value).subarray(0, bytes).toString().replace(/\uFFFD$/, '');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
@@ -0,0 +1,16 @@
+/**
+ * X-Ray SDK - Logging
+ * Where the SDK reports problems it handles without throwing, such as events
+ * the API rejected or a spool that could not be written.
+ */
+
+export interface XRayLogger {
+  warn(message: string, ...details: unknown[]): void;
+}
+
+/**
+ * Discards everything; pass as `logger` to silence the SDK
+ */
+export const silentLogger: XRayLogger = {
+  warn: () => {}
+};
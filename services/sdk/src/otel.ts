@@ -0,0 +1,131 @@
+/**
+ * X-Ray SDK - OpenTelemetry Bridge
+ * Emits each run as a span and each step as a child span, and stamps the
+ * trace/span IDs onto the run's metadata, so a trace links to its X-Ray run
+ * and back. @opentelemetry/api is an optional peer dependency, loaded only
+ * when the bridge is enabled; spans go wherever the app's OTel SDK exports them.
+ */
+
+import type { Span, Tracer, Attributes } from '@opentelemetry/api';
+import { Run, Step, XRaySpanAttributes as Attr } from '@xray/shared';
+
+export interface OTelOptions {
+  tracer?: Tracer;   // Tracer for run/step spans (default: the global tracer named 'xray')
+}
+
+type OTelApi = typeof import('@opentelemetry/api');
+
+export class OTelBridge {
+  private api: OTelApi;
+  private tracer: Tracer;
+  private spans: Map<string, Span> = new Map();   // By run or step ID, while open
+
+  constructor(options: OTelOptions = {}) {
+    this.api = loadApi();
+    this.tracer = options.tracer || this.api.trace.getTracer('xray');
+  }
+
+  /**
+   * Open the run's span as a child of the active span (if any)
+   * and record its IDs as metadata.otel
+   */
+  startRun(run: Run): void {
+    const attributes: Attributes = {
+      [Attr.RUN_ID]: run.id,
+      [Attr.PIPELINE_ID]: run.pipelineId
+    };
+    if (run.pipelineVersion) {
+      attributes[Attr.PIPELINE_VERSION] = run.pipelineVersion;
+    }
+
+    const span = this.tracer.startSpan(
+      `xray.run ${run.pipelineId}`,
+      { startTime: run.startedAt, attributes },
+      this.api.context.active()
+    );
+    this.spans.set(run.id, span);
+
+    // A no-op tracer (no OTel SDK registered) yields invalid all-zero IDs
+    const spanContext = span.spanContext();
+    if (this.api.isSpanContextValid(spanContext)) {
+      const parent = this.api.trace.getActiveSpan()?.spanContext();
+      run.metadata.otel = {
+        traceId: spanContext.traceId,
+        spanId: spanContext.spanId,
+        ...(parent && this.api.isSpanContextValid(parent) ? { parentSpanId: parent.spanId } : {})
+      };
+    }
+  }
+
+  /**
+   * Open a step's span under its parent step's span, or the run's
+   */
+  startStep(step: Step): void {
+    const parent = this.spans.get(step.parentStepId || step.runId);
+    const context = parent
+      ? this.api.trace.setSpan(this.api.context.active(), parent)
+      : this.api.context.active();
+
+    const attributes: Attributes = {
+      [Attr.RUN_ID]: step.runId,
+      [Attr.STEP_ID]: step.id,
+      [Attr.STEP_TYPE]: step.stepType,
+      [Attr.STEP_INDEX]: step.stepIndex
+    };
+    if (step.parentStepId) {
+      attributes[Attr.PARENT_STEP_ID] = step.parentStepId;
+    }
+
+    this.spans.set(step.id, this.tracer.startSpan(
+      `xray.step ${step.stepType}`,
+      { startTime: step.startedAt, attributes },
+      context
+    ));
+  }
+
+  /**
+   * Close a step's span with its outcome, counts and duration
+   */
+  endStep(step: Step): void {
+    const span = this.spans.get(step.id);
+    if (!span) {
+      return;
+    }
+    this.spans.delete(step.id);
+
+    span.setAttribute(Attr.STEP_STATUS, step.status);
+    if (step.inputCount !== undefined) span.setAttribute(Attr.INPUT_COUNT, step.inputCount);
+    if (step.outputCount !== undefined) span.setAttribute(Attr.OUTPUT_COUNT, step.outputCount);
+    if (step.durationMs !== undefined) span.setAttribute(Attr.DURATION_MS, step.durationMs);
+    this.end(span, step.error, step.completedAt);
+  }
+
+  /**
+   * Close the run's span with its outcome
+   */
+  endRun(run: Run): void {
+    const span = this.spans.get(run.id);
+    if (!span) {
+      return;
+    }
+    this.spans.delete(run.id);
+
+    span.setAttribute(Attr.RUN_STATUS, run.status);
+    this.end(span, run.error, run.completedAt);
+  }
+
+  private end(span: Span, error: string | undefined, endTime: Date | undefined): void {
+    if (error) {
+      span.setStatus({ code: this.api.SpanStatusCode.ERROR, message: error });
+    }
+    span.end(endTime);
+  }
+}
+
+function loadApi(): OTelApi {
+  try {
+    return require('@opentelemetry/api');
+  } catch {
+    throw new Error('XRayConfig.otel requires the @opentelemetry/api package (npm install @opentelemetry/api)');
+  }
+}
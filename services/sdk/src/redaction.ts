@@ -0,0 +1,256 @@
+/**
+ * X-Ray SDK - PII Redaction
+ * Scrubs run, step, candidate and filter payloads before they leave the process
+ * (and before they are spooled to disk). Rules select values by JSON path,
+ * key name or a regex over string contents, and drop, hash or mask them.
+ */
+
+import { createHash } from 'crypto';
+import { SpoolEvent } from './spool';
+
+export type RedactionAction = 'drop' | 'hash' | 'mask';
+
+export interface RedactionRule {
+  action: RedactionAction;
+  paths?: string[];            // JSON paths from the record, e.g. '$.input.seller.email', '$.data.items[*].cost', '$..email'
+  keys?: (string | RegExp)[];  // Key names anywhere in the payload (strings match case-insensitively)
+  patterns?: (RegExp | keyof typeof RedactionPatterns)[]; // Applied to string contents; only the match is replaced
+}
+
+export interface RedactionPolicy {
+  version: string;             // Recorded as metadata.redactionPolicy on every run
+  rules: RedactionRule[];
+  hashSalt?: string;           // Mixed into hashes so values cannot be looked up in a dictionary
+  maskWith?: string;           // Replacement for masked values (default: '[REDACTED]')
+}
+
+/**
+ * Built-in patterns for RedactionRule.patterns
+ */
+export const RedactionPatterns = {
+  email: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  phone: /(?:\+\d{1,3}[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g,
+  creditCard: /\b\d(?:[ -]?\d){12,18}\b/g   // Only Luhn-valid matches are redacted
+};
+
+/**
+ * Fields of each record that carry user content; IDs, statuses and counts are never touched
+ */
+export const CONTENT_FIELDS = {
+  run: ['input', 'output', 'error', 'metadata'],
+  step: ['input', 'output', 'config', 'reasoning', 'error', 'metadata'],
+  candidate: ['data', 'reason', 'metadata'],
+  filter: ['config', 'metadata'],
+  llmCall: ['messages', 'completion', 'parameters', 'error', 'metadata']
+};
+
+const DROP = Symbol('drop');
+
+type PathSegment = string | number | '*' | '**';
+
+export class Redactor {
+  private policy: RedactionPolicy;
+  private paths: { segments: PathSegment[]; rule: RedactionRule }[];
+
+  constructor(policy: RedactionPolicy) {
+    this.policy = policy;
+    this.paths = policy.rules.flatMap(rule =>
+      (rule.paths || []).map(path => ({ segments: parsePath(path), rule }))
+    );
+  }
+
+  /**
+   * Redact the content fields of an event
+   * The event is copied; the caller's objects are never modified
+   */
+  redactEvent(event: SpoolEvent): SpoolEvent {
+    switch (event.type) {
+      case 'createRun':
+        return { ...event, data: this.withVersion(this.redactRecord(event.data, CONTENT_FIELDS.run)) };
+      case 'updateRun':
+        return { ...event, data: this.withVersion(this.redactRecord(event.data, CONTENT_FIELDS.run)) };
+      case 'createStep':
+        return { ...event, data: this.redactRecord(event.data, CONTENT_FIELDS.step) };
+      case 'updateStep':
+        return { ...event, data: this.redactRecord(event.data, CONTENT_FIELDS.step) };
+      case 'createCandidates':
+        return { ...event, data: event.data.map(c => this.redactRecord(c, CONTENT_FIELDS.candidate)) };
+      case 'createFilter':
+        return { ...event, data: this.redactRecord(event.data, CONTENT_FIELDS.filter) };
+      case 'createLLMCall':
+        return { ...event, data: this.redactRecord(event.data, CONTENT_FIELDS.llmCall) };
+    }
+  }
+
+  private redactRecord<T extends Record<string, any>>(record: T, fields: string[]): T {
+    const redacted: Record<string, any> = { ...record };
+    for (const field of fields) {
+      if (redacted[field] === undefined) {
+        continue;
+      }
+      const value = this.redactValue(redacted[field], [field]);
+      if (value === DROP) {
+        delete redacted[field];
+      } else {
+        redacted[field] = value;
+      }
+    }
+    return redacted as T;
+  }
+
+  /**
+   * Record the policy version on run metadata (only when metadata is being sent,
+   * since updates replace it)
+   */
+  private withVersion<T extends { metadata?: Record<string, any> }>(data: T): T {
+    if (!data.metadata) {
+      return data;
+    }
+    return { ...data, metadata: { ...data.metadata, redactionPolicy: this.policy.version } };
+  }
+
+  private redactValue(value: unknown, path: (string | number)[]): unknown {
+    const key = path[path.length - 1];
+    const rule = this.paths.find(p => matchPath(p.segments, path))?.rule
+      || this.policy.rules.find(r => typeof key === 'string' && r.keys?.some(k => matchKey(k, key)));
+    if (rule) {
+      return this.apply(rule.action, value);
+    }
+
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+
+    if (Array.isArray(value)) {
+      return value
+        .map((item, i) => this.redactValue(item, [...path, i]))
+        .filter(item => item !== DROP);
+    }
+
+    if (isPlainObject(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [childKey, child] of Object.entries(value)) {
+        const redacted = this.redactValue(child, [...path, childKey]);
+        if (redacted !== DROP) {
+          result[childKey] = redacted;
+        }
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Apply every pattern rule to a string; drop removes the whole value
+   */
+  private redactString(value: string): unknown {
+    let result = value;
+    for (const rule of this.policy.rules) {
+      for (const pattern of rule.patterns || []) {
+        const regex = typeof pattern === 'string' ? RedactionPatterns[pattern] : pattern;
+        const isCard = regex === RedactionPatterns.creditCard;
+        let matched = false;
+
+        result = result.replace(globalRegex(regex), match => {
+          if (isCard && !luhnValid(match)) {
+            return match;
+          }
+          matched = true;
+          return rule.action === 'drop' ? match : String(this.apply(rule.action, match));
+        });
+
+        if (matched && rule.action === 'drop') {
+          return DROP;
+        }
+      }
+    }
+    return result;
+  }
+
+  private apply(action: RedactionAction, value: unknown): unknown {
+    switch (action) {
+      case 'drop':
+        return DROP;
+      case 'hash': {
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        const digest = createHash('sha256').update((this.policy.hashSalt || '') + text).digest('hex');
+        return `hash:${digest.slice(0, 16)}`;
+      }
+      case 'mask':
+        return this.policy.maskWith ?? '[REDACTED]';
+    }
+  }
+}
+
+/**
+ * Parse a JSON path ('$.a.b', '$.a[0]', '$.a[*].b', '$.a.*', '$..b') into segments
+ * The leading '$' is the record itself, so '$.input' is the record's input field
+ */
+function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  const tokens = path.replace(/^\$/, '').match(/\.\.[^.[\]]*|\.[^.[\]]+|\[[^\]]*\]/g) || [];
+  for (const token of tokens) {
+    if (token.startsWith('..')) {
+      const name = token.slice(2);
+      segments.push('**');
+      if (name) {
+        segments.push(name === '*' ? '*' : name);
+      }
+    } else if (token.startsWith('[')) {
+      const inner = token.slice(1, -1).replace(/^['"]|['"]$/g, '');
+      segments.push(inner === '*' ? '*' : /^\d+$/.test(inner) ? Number(inner) : inner);
+    } else {
+      const name = token.slice(1);
+      segments.push(name === '*' ? '*' : name);
+    }
+  }
+  return segments;
+}
+
+/**
+ * Whether path segments match a concrete path ('**' matches any number of keys)
+ */
+function matchPath(segments: PathSegment[], path: (string | number)[]): boolean {
+  if (segments.length === 0) {
+    return path.length === 0;
+  }
+  const [head, ...rest] = segments;
+  if (head === '**') {
+    return path.some((_, i) => matchPath(rest, path.slice(i))) || matchPath(rest, []);
+  }
+  if (path.length === 0) {
+    return false;
+  }
+  return (head === '*' || head === path[0]) && matchPath(rest, path.slice(1));
+}
+
+function matchKey(pattern: string | RegExp, key: string): boolean {
+  return typeof pattern === 'string'
+    ? pattern.toLowerCase() === key.toLowerCase()
+    : new RegExp(pattern.source, pattern.flags.replace('g', '')).test(key);
+}
+
+function globalRegex(regex: RegExp): RegExp {
+  return new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : regex.flags + 'g');
+}
+
+function luhnValid(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
@@ -0,0 +1,65 @@
+/**
+ * X-Ray SDK - Declarative Filter Rules
+ * Applies named predicates to candidates and attributes every rejection
+ * to the first rule it failed
+ */
+
+import { CandidateOptions } from '@xray/shared';
+
+export interface FilterRule {
+  filterType: string;                 // Recorded as Filter.filterType (e.g. 'price-range')
+  config?: Record<string, any>;       // Recorded as Filter.config and passed to the predicate
+  predicate: (candidate: CandidateOptions, config: Record<string, any>) => boolean; // true = keep
+  reason?: string | ((candidate: CandidateOptions, config: Record<string, any>) => string);
+  metadata?: Record<string, any>;
+}
+
+export interface RuleOutcome {
+  rule: FilterRule;
+  candidatesAffected: number;         // Candidates that reached this rule
+  rejected: { candidate: CandidateOptions; reason: string }[];
+}
+
+export interface RuleResult {
+  accepted: CandidateOptions[];
+  outcomes: RuleOutcome[];
+}
+
+/**
+ * Apply rules in order; a candidate rejected by one rule is not seen by later rules
+ * @returns Surviving candidates and, per rule, what it evaluated and rejected
+ */
+export function applyFilterRules(candidates: CandidateOptions[], rules: FilterRule[]): RuleResult {
+  let remaining = candidates;
+  const outcomes: RuleOutcome[] = [];
+
+  for (const rule of rules) {
+    const config = rule.config || {};
+    const outcome: RuleOutcome = { rule, candidatesAffected: remaining.length, rejected: [] };
+    const kept: CandidateOptions[] = [];
+
+    for (const candidate of remaining) {
+      if (rule.predicate(candidate, config)) {
+        kept.push(candidate);
+      } else {
+        outcome.rejected.push({ candidate, reason: describeRejection(rule, candidate, config) });
+      }
+    }
+
+    outcomes.push(outcome);
+    remaining = kept;
+  }
+
+  return { accepted: remaining, outcomes };
+}
+
+function describeRejection(
+  rule: FilterRule,
+  candidate: CandidateOptions,
+  config: Record<string, any>
+): string {
+  if (typeof rule.reason === 'function') {
+    return rule.reason(candidate, config);
+  }
+  return rule.reason || `Failed ${rule.filterType}`;
+}
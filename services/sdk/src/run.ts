@@ -0,0 +1,591 @@
+/**
+ * X-Ray SDK - Run Handle
+ * Tracks a single pipeline execution so one XRay instance can trace many runs at once
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { SpoolEvent } from './spool';
+import { FilterRule, applyFilterRules } from './rules';
+import { seededRandom } from './sampling';
+import { summarizeCandidates } from './summary';
+import { TraceKeptBy, stepKeepReason, tailKeepReason } from './tracesampling';
+import { Redactor } from './redaction';
+import { Truncator, countTruncations } from './limits';
+import { OTelBridge } from './otel';
+import { XRayLogger } from './logger';
+import type { XRayConfig } from './xray';
+import {
+  Run,
+  Step,
+  Candidate,
+  Filter,
+  LLMCall,
+  StepOptions,
+  CandidateOptions,
+  FilterOptions,
+  LLMCallOptions,
+  SamplingStrategy
+} from '@xray/shared';
+
+export interface RunHandleOptions {
+  headRate?: number;      // Trace sampling rate for the run's pipeline; a run not kept at this
+                          // rate is buffered until complete() applies the tail rules
+  redactor?: Redactor;    // Applied to every event before anything else sees it
+  truncator?: Truncator;  // Applied after redaction; truncations are counted in metadata
+  otel?: OTelBridge;      // Mirrors the run and its steps as OpenTelemetry spans
+  logger?: XRayLogger;    // Where failed heartbeats are reported (default: console)
+  heartbeat?: {           // Reports the run as alive while it is running
+    intervalMs: number;
+    send: (runId: string) => Promise<unknown>;
+  };
+}
+
+export class RunHandle {
+  readonly run: Run;
+  private config: XRayConfig;
+  private send: (event: SpoolEvent) => Promise<any>;
+  private stepIndex: number = 0;
+  private pendingSteps: Map<string, Step> = new Map();
+  private stepOptions: Map<string, StepOptions> = new Map();
+  private headRate?: number;
+  private buffer: SpoolEvent[] | null = null;
+  private completedSteps: Step[] = [];           // Finished steps the tail rules still need
+  private stepKeepReasons: Set<TraceKeptBy> = new Set(); // Tail rules matched by finished steps not held
+  private redactor?: Redactor;
+  private truncator?: Truncator;
+  private otel?: OTelBridge;
+  private heartbeat?: RunHandleOptions['heartbeat'];
+  private logger: XRayLogger;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    run: Run,
+    config: XRayConfig,
+    send: (event: SpoolEvent) => Promise<any>,
+    options: RunHandleOptions = {}
+  ) {
+    this.run = run;
+    this.config = config;
+    this.send = send;
+    this.redactor = options.redactor;
+    this.truncator = options.truncator;
+    this.otel = options.otel;
+    this.heartbeat = options.heartbeat;
+    this.logger = options.logger ?? console;
+
+    const { headRate } = options;
+    if (headRate !== undefined) {
+      this.headRate = headRate;
+      this.run.sampleRate = headRate;
+      this.buffer = Math.random() < headRate ? null : [];
+    }
+
+    // Before start() so the createRun event carries metadata.otel
+    this.otel?.startRun(this.run);
+  }
+
+  /**
+   * Run identifier (client-generated, kept by the API)
+   */
+  get id(): string {
+    return this.run.id;
+  }
+
+  /**
+   * Record the run's creation
+   */
+  async start(): Promise<void> {
+    // startedAt is sent so a spooled (or buffered) run keeps its real start time
+    const { status, ...runData } = this.run;
+    await this.emit({ type: 'createRun', data: runData });
+    this.startHeartbeat();
+  }
+
+  /**
+   * Complete the run, closing any steps still running
+   * With trace sampling, a buffered run is sent now if a tail rule keeps it
+   * and discarded otherwise
+   */
+  async complete(output?: any, error?: string): Promise<void> {
+    if (this.run.status !== 'running') {
+      throw new Error(`Run ${this.run.id} is already ${this.run.status}`);
+    }
+
+    this.stopHeartbeat();
+    this.run.status = error ? 'failed' : 'completed';
+    this.run.completedAt = new Date();
+    this.run.output = output;
+    this.run.error = error;
+
+    // Tail rules see steps as the pipeline left them: a step closed below only
+    // because the run completed is not a failure the pipeline recorded
+    const keptBy = this.headRate !== undefined
+      ? tailKeepReason(
+          this.config.traceSampling || {},
+          this.run,
+          [...this.completedSteps, ...this.pendingSteps.values()],
+          [...this.stepKeepReasons]
+        )
+      : null;
+
+    for (const step of this.pendingSteps.values()) {
+      if (step.status === 'running') {
+        await this.completeStep(step.id, undefined, 'Run completed');
+      }
+    }
+    this.otel?.endRun(this.run);
+
+    const updates: Partial<Run> = {
+      status: this.run.status,
+      completedAt: this.run.completedAt,
+      output: this.run.output,
+      error: this.run.error
+    };
+
+    if (this.headRate !== undefined) {
+      const buffered = this.buffer;
+      this.buffer = null;
+      this.completedSteps = [];
+      this.stepKeepReasons.clear();
+
+      if (buffered && !keptBy) {
+        // Kept neither up front nor by a tail rule: nothing was sent, so just drop it
+        this.pendingSteps.clear();
+        return;
+      }
+
+      // Runs kept by a tail rule would have been kept at any head rate
+      this.run.sampleRate = keptBy ? 1 : this.headRate;
+      this.run.metadata.traceSampling = { keptBy: keptBy || 'head', headRate: this.headRate };
+      updates.sampleRate = this.run.sampleRate;
+      updates.metadata = this.run.metadata;
+
+      for (const event of buffered || []) {
+        if (event.type === 'createRun') {
+          event.data.sampleRate = this.run.sampleRate;
+        }
+        await this.send(event);
+      }
+    }
+
+    await this.emit({ type: 'updateRun', runId: this.run.id, data: updates });
+
+    this.pendingSteps.clear();
+  }
+
+
+  /**
+   * Start a new step
+   */
+  async startStep(options: StepOptions): Promise<Step> {
+    if (this.run.status !== 'running') {
+      throw new Error(`Run ${this.run.id} is already ${this.run.status}`);
+    }
+
+    const step: Step = {
+      id: uuidv4(),
+      runId: this.run.id,
+      parentStepId: options.parentStepId,
+      stepType: options.stepType,
+      stepIndex: this.stepIndex++,
+      status: 'running',
+      startedAt: new Date(),
+      input: options.input,
+      reasoning: options.reasoning,
+      config: options.config,
+      metadata: options.metadata || {},
+      captureAllCandidates: options.captureAllCandidates
+    };
+
+    // The API keeps the client-generated ID, so later calls can reference the step
+    // without its response; status is left for the API to set
+    const { status, ...stepData } = step;
+    this.pendingSteps.set(step.id, step);
+    this.stepOptions.set(step.id, options);
+    this.otel?.startStep(step);
+    await this.emit({ type: 'createStep', data: stepData });
+
+    return step;
+  }
+
+  /**
+   * Complete a step
+   */
+  async completeStep(
+    stepId: string,
+    output?: any,
+    error?: string,
+    reasoning?: string
+  ): Promise<void> {
+    const step = this.pendingSteps.get(stepId);
+    if (!step) {
+      throw new Error(`Step ${stepId} not found`);
+    }
+
+    const completedAt = new Date();
+    const durationMs = completedAt.getTime() - step.startedAt.getTime();
+
+    step.status = error ? 'failed' : 'completed';
+    step.completedAt = completedAt;
+    step.output = output;
+    step.error = error;
+    step.durationMs = durationMs;
+    if (reasoning) {
+      step.reasoning = reasoning;
+    }
+
+    // Only send defined fields to avoid validation errors
+    const updates: any = {
+      status: step.status,
+      completedAt: step.completedAt,
+      durationMs: step.durationMs
+    };
+    
+    if (step.output !== undefined) updates.output = step.output;
+    if (step.error !== undefined) updates.error = step.error;
+    if (step.reasoning !== undefined) updates.reasoning = step.reasoning;
+    if (step.inputCount !== undefined) updates.inputCount = step.inputCount;
+    if (step.outputCount !== undefined) updates.outputCount = step.outputCount;
+    if (step.candidateSummary !== undefined) updates.candidateSummary = step.candidateSummary;
+    if (Object.keys(step.metadata).length > 0) updates.metadata = step.metadata;
+
+    // Update step in API
+    await this.emit({ type: 'updateStep', stepId, data: updates });
+    this.otel?.endStep(step);
+
+    if (this.headRate !== undefined) {
+      // A head-kept run's steps only decide its recorded rate, which the built-in
+      // rules can do step by step; keep the step while the run may still be
+      // dropped, or for a custom rule, which is given every step
+      const policy = this.config.traceSampling || {};
+      if (this.buffer || policy.keep) {
+        this.completedSteps.push(step);
+      } else {
+        const reason = stepKeepReason(policy, step);
+        if (reason) {
+          this.stepKeepReasons.add(reason);
+        }
+      }
+    }
+
+    this.pendingSteps.delete(stepId);
+    this.stepOptions.delete(stepId);
+  }
+
+  /**
+   * Record candidates for a step
+   * Handles performance optimization automatically
+   */
+  async recordCandidates(
+    stepId: string,
+    candidates: CandidateOptions[],
+    acceptedIds: string[] = []
+  ): Promise<void> {
+    const step = this.pendingSteps.get(stepId);
+    if (!step) {
+      throw new Error(`Step ${stepId} not found`);
+    }
+
+    // An explicit per-candidate status wins over membership in acceptedIds
+    const acceptedSet = new Set(acceptedIds);
+    const accepted: CandidateOptions[] = [];
+    const rejected: CandidateOptions[] = [];
+
+    for (const candidate of candidates) {
+      const isAccepted = candidate.status
+        ? candidate.status === 'accepted'
+        : acceptedSet.has(candidate.candidateId);
+      (isAccepted ? accepted : rejected).push(candidate);
+    }
+
+    const totalCount = candidates.length;
+
+    step.inputCount = totalCount;
+    step.outputCount = accepted.length;
+    step.candidateSummary = summarizeCandidates(accepted, rejected, {
+      fields: this.stepOptions.get(stepId)?.summaryFields || this.config.summaryFields,
+      histogramBuckets: this.config.histogramBuckets
+    });
+
+    const captureAll = step.captureAllCandidates ??
+      (totalCount < (this.config.fullCaptureThreshold || 100));
+
+    const candidatesToRecord: Candidate[] = [];
+
+    if (captureAll) {
+      const acceptedSubset = new Set(accepted);
+      for (const candidate of candidates) {
+        candidatesToRecord.push(this.toCandidate(
+          stepId,
+          candidate,
+          acceptedSubset.has(candidate) ? 'accepted' : 'rejected'
+        ));
+      }
+    } else {
+      accepted.sort((a, b) => (b.score || 0) - (a.score || 0));
+
+      const topAccepted = accepted.slice(0, this.config.topAcceptedCount || 50);
+      for (const candidate of topAccepted) {
+        candidatesToRecord.push(this.toCandidate(stepId, candidate, 'accepted'));
+      }
+
+      const sampleSize = Math.min(
+        this.config.sampleRejectedCount || 20,
+        rejected.length
+      );
+      const { strategy, seed } = this.resolveSampling(stepId);
+      const sampled = strategy.sample(rejected, sampleSize, seed);
+      for (const candidate of sampled) {
+        candidatesToRecord.push(this.toCandidate(stepId, candidate, 'rejected'));
+      }
+
+      // Recorded on the step (sent on completion) so the sample can be reproduced
+      step.metadata.sampling = {
+        strategy: strategy.name,
+        seed,
+        acceptedCaptured: topAccepted.length,
+        acceptedTotal: accepted.length,
+        rejectedCaptured: sampled.length,
+        rejectedTotal: rejected.length
+      };
+    }
+
+    if (candidatesToRecord.length > 0) {
+      const payload = candidatesToRecord.map(c => ({
+        id: c.id,
+        candidateId: c.candidateId,
+        status: c.status,
+        score: c.score,
+        reason: c.reason,
+        filterId: c.filterId,
+        data: c.data,
+        metadata: c.metadata
+      }));
+      await this.emit({ type: 'createCandidates', stepId, data: payload });
+    }
+  }
+
+  /**
+   * Record a filter applied at a step
+   * The filter ID is generated client-side so candidates can reference it
+   * via filterId before (or without) a round trip to the API
+   */
+  async recordFilter(stepId: string, options: FilterOptions): Promise<Filter> {
+    const filter: Filter = {
+      id: uuidv4(),
+      stepId,
+      filterType: options.filterType,
+      config: options.config,
+      candidatesAffected: options.candidatesAffected,
+      candidatesRejected: options.candidatesRejected,
+      metadata: options.metadata || {}
+    };
+
+    const payload = {
+      id: filter.id,
+      filterType: filter.filterType,
+      config: filter.config,
+      candidatesAffected: filter.candidatesAffected,
+      candidatesRejected: filter.candidatesRejected,
+      metadata: filter.metadata
+    };
+    await this.emit({ type: 'createFilter', stepId, data: payload });
+
+    return filter;
+  }
+
+  /**
+   * Record a model call made by a step (prompt, completion, tokens, cost, ...)
+   * The prompt and completion are redacted and truncated like any other content
+   */
+  async recordLLMCall(stepId: string, options: LLMCallOptions): Promise<LLMCall> {
+    if (!this.pendingSteps.has(stepId)) {
+      throw new Error(`Step ${stepId} not found`);
+    }
+
+    const { promptTokens, completionTokens } = options;
+    const call: Omit<LLMCall, 'stepId'> = {
+      id: uuidv4(),
+      ...options,
+      totalTokens: options.totalTokens ?? (
+        promptTokens !== undefined && completionTokens !== undefined ? promptTokens + completionTokens : undefined
+      ),
+      startedAt: options.startedAt || new Date(Date.now() - (options.latencyMs || 0)),
+      metadata: options.metadata || {}
+    };
+
+    await this.emit({ type: 'createLLMCall', stepId, data: call });
+
+    return { ...call, stepId };
+  }
+
+  /**
+   * Apply filter rules to candidates and record everything
+   * Records one Filter per rule with exact impact counts, then every candidate,
+   * with each rejection attributed to the first rule it failed
+   * @returns Candidates that passed every rule
+   */
+  async filter(
+    stepId: string,
+    candidates: CandidateOptions[],
+    rules: FilterRule[]
+  ): Promise<CandidateOptions[]> {
+    if (!this.pendingSteps.has(stepId)) {
+      throw new Error(`Step ${stepId} not found`);
+    }
+
+    const { accepted, outcomes } = applyFilterRules(candidates, rules);
+    const decisions = new Map<CandidateOptions, CandidateOptions>();
+
+    for (const candidate of accepted) {
+      decisions.set(candidate, { ...candidate, status: 'accepted' });
+    }
+
+    for (const outcome of outcomes) {
+      const filter = await this.recordFilter(stepId, {
+        filterType: outcome.rule.filterType,
+        config: outcome.rule.config || {},
+        candidatesAffected: outcome.candidatesAffected,
+        candidatesRejected: outcome.rejected.length,
+        metadata: outcome.rule.metadata
+      });
+
+      for (const { candidate, reason } of outcome.rejected) {
+        decisions.set(candidate, { ...candidate, status: 'rejected', reason, filterId: filter.id });
+      }
+    }
+
+    await this.recordCandidates(stepId, candidates.map(c => decisions.get(c)!));
+
+    return accepted;
+  }
+
+  /**
+   * Send heartbeats until the run completes
+   * The timer is unref'd so it never keeps the process alive. Nothing is sent
+   * while trace sampling holds the run back, as the API does not know it yet;
+   * failures are only logged, and stop the heartbeats if the API no longer
+   * accepts them (e.g. the run was already abandoned).
+   */
+  private startHeartbeat(): void {
+    const heartbeat = this.heartbeat;
+    if (!heartbeat || this.heartbeatTimer) {
+      return;
+    }
+    this.heartbeatTimer = setInterval(() => {
+      if (this.buffer) {
+        return;
+      }
+      heartbeat.send(this.run.id).catch((error: any) => {
+        this.logger.warn(`[X-Ray] Heartbeat for run ${this.run.id} failed:`, error.message);
+        if (error.response?.status === 409) {
+          this.stopHeartbeat();
+        }
+      });
+    }, heartbeat.intervalMs);
+    this.heartbeatTimer.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Send an event, or hold it while trace sampling has not kept the run
+   * Payloads are redacted first, so unredacted data never reaches the buffer,
+   * queue, spool or network, and then truncated to the payload limits
+   */
+  private emit(event: SpoolEvent): Promise<any> {
+    if (this.redactor) {
+      event = this.redactor.redactEvent(event);
+    }
+    if (this.truncator) {
+      const result = this.truncator.truncateEvent(event);
+      event = result.truncated.length > 0 ? this.countTruncated(result.event, result.truncated) : result.event;
+    }
+
+    if (this.buffer) {
+      this.buffer.push(event);
+      return Promise.resolve(undefined);
+    }
+    return this.send(event);
+  }
+
+  /**
+   * Tally truncated fields in metadata.truncation of the run or step the event belongs to
+   * Run and step events carry the tally themselves; candidate, filter and
+   * LLM call truncations are sent with the step when it completes
+   */
+  private countTruncated(event: SpoolEvent, truncated: string[]): SpoolEvent {
+    switch (event.type) {
+      case 'createRun':
+      case 'updateRun': {
+        const tally = countTruncations(this.run.metadata.truncation, truncated);
+        this.run.metadata.truncation = tally;
+        // Metadata replaces what is stored, so an update without it sends the run's own
+        const ownMetadata = this.redactor
+          ? (this.redactor.redactEvent({ type: 'updateRun', runId: this.run.id, data: { metadata: this.run.metadata } })
+            .data as Partial<Run>).metadata
+          : this.run.metadata;
+        const metadata = { ...(event.data.metadata || ownMetadata), truncation: tally };
+        return { ...event, data: { ...event.data, metadata } } as SpoolEvent;
+      }
+      case 'createStep':
+      case 'updateStep': {
+        const step = this.pendingSteps.get(event.type === 'createStep' ? event.data.id : event.stepId);
+        const tally = countTruncations(step?.metadata.truncation, truncated);
+        if (step) {
+          step.metadata.truncation = tally;
+        }
+        // Step updates leave out metadata only when the step has none to lose
+        return { ...event, data: { ...event.data, metadata: { ...event.data.metadata, truncation: tally } } } as SpoolEvent;
+      }
+      case 'createCandidates':
+      case 'createFilter':
+      case 'createLLMCall': {
+        const step = this.pendingSteps.get(event.stepId);
+        if (step) {
+          step.metadata.truncation = countTruncations(step.metadata.truncation, truncated);
+        }
+        return event;
+      }
+    }
+  }
+
+  /**
+   * Pick the sampling strategy and seed for a step
+   * Step options win over XRayConfig; without a fixed seed a fresh one is drawn
+   */
+  private resolveSampling(stepId: string): { strategy: SamplingStrategy; seed: number } {
+    const options = this.stepOptions.get(stepId);
+    return {
+      strategy: options?.sampling || this.config.sampling || seededRandom(),
+      seed: options?.samplingSeed ?? this.config.samplingSeed ?? Math.floor(Math.random() * 2 ** 32)
+    };
+  }
+
+  /**
+   * Build the candidate record to send
+   * Rejected candidates without an explicit reason fall back to 'Filtered out'
+   */
+  private toCandidate(
+    stepId: string,
+    candidate: CandidateOptions,
+    status: 'accepted' | 'rejected'
+  ): Candidate {
+    return {
+      id: uuidv4(),
+      stepId,
+      candidateId: candidate.candidateId,
+      status,
+      score: candidate.score,
+      reason: status === 'rejected' ? candidate.reason || 'Filtered out' : candidate.reason,
+      filterId: status === 'rejected' ? candidate.filterId : undefined,
+      data: candidate.data,
+      metadata: candidate.metadata || {}
+    };
+  }
+}
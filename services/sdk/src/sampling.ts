@@ -0,0 +1,138 @@
+/**
+ * X-Ray SDK - Candidate Sampling Strategies
+ * Decide which rejected candidates are kept when a step is too large for full capture.
+ * Every strategy is deterministic for a given seed so a sample can be reproduced.
+ */
+
+import { CandidateOptions, SamplingStrategy } from '@xray/shared';
+
+/**
+ * Seeded pseudo-random generator (mulberry32)
+ * @returns Function yielding floats in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seeded Fisher-Yates shuffle
+ */
+function shuffle<T>(array: T[], random: () => number): T[] {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Uniform random sample, reproducible from the seed
+ */
+export function seededRandom(): SamplingStrategy {
+  return {
+    name: 'seeded-random',
+    sample: (candidates, limit, seed) => shuffle(candidates, createRandom(seed)).slice(0, limit)
+  };
+}
+
+/**
+ * Highest-scored rejected candidates first: the near misses
+ * Ties (and unscored candidates) keep their input order
+ */
+export function nearBoundary(): SamplingStrategy {
+  return {
+    name: 'near-boundary',
+    sample: (candidates, limit) => [...candidates]
+      .sort((a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity))
+      .slice(0, limit)
+  };
+}
+
+/**
+ * Sample proportionally from each rejection reason, so rare reasons are not drowned out
+ * Every reason gets at least one slot while the limit allows
+ */
+export function stratifiedByReason(): SamplingStrategy {
+  return {
+    name: 'stratified-by-reason',
+    sample: (candidates, limit, seed) => {
+      const random = createRandom(seed);
+      const groups = new Map<string, CandidateOptions[]>();
+      for (const candidate of candidates) {
+        const reason = candidate.reason || 'Filtered out';
+        const group = groups.get(reason);
+        if (group) {
+          group.push(candidate);
+        } else {
+          groups.set(reason, [candidate]);
+        }
+      }
+
+      const strata = [...groups.values()]
+        .sort((a, b) => b.length - a.length)
+        .map(group => shuffle(group, random));
+
+      // One per reason first, then the remaining budget proportionally
+      const quotas: number[] = strata.map((_, i) => (i < limit ? 1 : 0));
+      let budget = limit - quotas.reduce((sum, q) => sum + q, 0);
+      const total = candidates.length;
+      for (let i = 0; i < strata.length && budget > 0; i++) {
+        const extra = Math.min(
+          strata[i].length - quotas[i],
+          Math.floor(((limit * strata[i].length) / total)) - quotas[i],
+          budget
+        );
+        if (extra > 0) {
+          quotas[i] += extra;
+          budget -= extra;
+        }
+      }
+      // Rounding leftovers go to the largest strata that still have candidates
+      for (let i = 0; i < strata.length && budget > 0; i++) {
+        const extra = Math.min(strata[i].length - quotas[i], budget);
+        quotas[i] += extra;
+        budget -= extra;
+      }
+
+      return strata.flatMap((group, i) => group.slice(0, quotas[i]));
+    }
+  };
+}
+
+/**
+ * Always keep the listed candidate IDs, then fill the remaining slots with another strategy
+ * Listed IDs are kept even if that exceeds the limit
+ */
+export function alwaysInclude(
+  candidateIds: string[],
+  fallback: SamplingStrategy = seededRandom()
+): SamplingStrategy {
+  const ids = new Set(candidateIds);
+  return {
+    name: `always-include+${fallback.name}`,
+    sample: (candidates, limit, seed) => {
+      const pinned = candidates.filter(c => ids.has(c.candidateId));
+      const rest = candidates.filter(c => !ids.has(c.candidateId));
+      const remaining = Math.max(limit - pinned.length, 0);
+      return [...pinned, ...fallback.sample(rest, remaining, seed)];
+    }
+  };
+}
+
+/**
+ * Built-in strategies, for use in XRayConfig.sampling / StepOptions.sampling
+ */
+export const SamplingStrategies = {
+  seededRandom,
+  nearBoundary,
+  stratifiedByReason,
+  alwaysInclude
+};
@@ -0,0 +1,210 @@
+/**
+ * X-Ray Offline Spool
+ * Persists tracing events to local disk while the X-Ray API is unreachable
+ * and replays them in order once it comes back.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { XRayClient, isTransientError } from './client';
+import { XRayLogger } from './logger';
+import { IngestEvent } from '@xray/shared';
+
+/**
+ * A single tracing operation, recorded exactly as it would have been sent.
+ * IDs are client-generated and kept by the API, so replaying an event that
+ * already reached it is harmless.
+ */
+export type SpoolEvent = IngestEvent;
+
+export interface SpoolConfig {
+  directory: string;
+  flushIntervalMs?: number;
+  logger?: XRayLogger;   // Where write and replay failures are reported (default: console)
+}
+
+/**
+ * Deliver a single event through the client
+ */
+export async function sendEvent(client: XRayClient, event: SpoolEvent): Promise<any> {
+  switch (event.type) {
+    case 'createRun':
+      return client.createRun(event.data);
+    case 'updateRun':
+      return client.updateRun(event.runId, event.data);
+    case 'createStep':
+      return client.createStep(event.data);
+    case 'updateStep':
+      return client.updateStep(event.stepId, event.data);
+    case 'createCandidates':
+      return client.createCandidates(event.stepId, event.data);
+    case 'createFilter':
+      return client.createFilter(event.stepId, event.data);
+    case 'createLLMCall':
+      return client.createLLMCall(event.stepId, event.data);
+  }
+}
+
+const EVENTS_FILE = 'events.jsonl';
+
+export class Spool {
+  private client: XRayClient;
+  private config: Required<SpoolConfig>;
+  private events: SpoolEvent[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+  private flushing: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(client: XRayClient, config: SpoolConfig) {
+    this.client = client;
+    // Options passed as undefined still get their defaults
+    this.config = {
+      directory: config.directory,
+      flushIntervalMs: config.flushIntervalMs ?? 10000,
+      logger: config.logger ?? console
+    };
+    this.load();
+  }
+
+  /**
+   * Whether events are waiting to be replayed.
+   * While true, new events must be spooled too so ordering is preserved.
+   */
+  hasPending(): boolean {
+    return this.events.length > 0 || this.flushing !== null;
+  }
+
+  /**
+   * Append an event to the spool and make sure the flusher is running
+   */
+  append(event: SpoolEvent): Promise<void> {
+    this.events.push(event);
+    this.start();
+    this.writeChain = this.writeChain
+      .then(() => fs.promises.appendFile(this.eventsPath(), JSON.stringify(event) + '\n'))
+      .catch(error => this.config.logger.warn('[X-Ray] Failed to write spool:', error.message));
+    return this.writeChain;
+  }
+
+  /**
+   * Start the background flusher (no-op if already running).
+   * The timer is unref'd so it never keeps the process alive.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, this.config.flushIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the background flusher
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Replay spooled events in order until the spool is empty or the API fails again.
+   * Concurrent calls share the same in-flight flush.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => {
+        this.flushing = null;
+        if (this.events.length === 0) {
+          this.stop();
+        }
+      });
+    }
+    return this.flushing;
+  }
+
+  private async replay(): Promise<void> {
+    await this.writeChain;
+    let replayed = 0;
+
+    try {
+      while (this.events.length > 0) {
+        const event = this.events[0];
+        try {
+          await sendEvent(this.client, event);
+        } catch (error: any) {
+          if (isTransientError(error)) {
+            break;
+          }
+          // The API rejected the event itself; retrying will never succeed
+          this.config.logger.warn(`[X-Ray] Dropping spooled ${event.type} event:`, error.message);
+        }
+        this.events.shift();
+        replayed++;
+      }
+    } finally {
+      if (replayed > 0) {
+        await this.persist();
+      }
+    }
+  }
+
+  /**
+   * Rewrite the events file with whatever has not been replayed yet.
+   * Events appended while the rewrite is queued are preserved because
+   * appends and rewrites share the same write chain.
+   */
+  private persist(): Promise<void> {
+    const contents = this.events.map(event => JSON.stringify(event) + '\n').join('');
+    this.writeChain = this.writeChain
+      .then(() => fs.promises.writeFile(this.eventsPath(), contents))
+      .catch(error => this.config.logger.warn('[X-Ray] Failed to write spool:', error.message));
+    return this.writeChain;
+  }
+
+  /**
+   * Load events left over from a previous process
+   * Never throws: a line cut short by a crash is skipped, and if the directory
+   * cannot be used the spool keeps events in memory only
+   */
+  private load(): void {
+    try {
+      fs.mkdirSync(this.config.directory, { recursive: true });
+      if (fs.existsSync(this.eventsPath())) {
+        this.events = this.parse(fs.readFileSync(this.eventsPath(), 'utf8'));
+      }
+    } catch (error: any) {
+      this.config.logger.warn('[X-Ray] Failed to read spool:', error.message);
+    }
+
+    if (this.events.length > 0) {
+      this.start();
+    }
+  }
+
+  private parse(contents: string): SpoolEvent[] {
+    const events: SpoolEvent[] = [];
+    let skipped = 0;
+    for (const line of contents.split('\n')) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+      try {
+        events.push(JSON.parse(line) as SpoolEvent);
+      } catch {
+        skipped++;
+      }
+    }
+    if (skipped > 0) {
+      this.config.logger.warn(`[X-Ray] Skipped ${skipped} unreadable spool line(s)`);
+    }
+    return events;
+  }
+
+  private eventsPath(): string {
+    return path.join(this.config.directory, EVENTS_FILE);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * X-Ray SDK - Candidate Summary
+ * Aggregate statistics over the full candidate set of a step, so steps
+ * that only capture a sample still describe every candidate they saw
+ */
+
+import { CandidateOptions, CandidateSummary, ScoreStats } from '@xray/shared';
+
+export interface SummaryOptions {
+  fields?: string[];          // data fields to count values of (e.g. 'category')
+  histogramBuckets?: number;  // Buckets over the combined score range
+  maxFieldValues?: number;    // Distinct values kept per field; the rest count as '(other)'
+}
+
+const PERCENTILES = [10, 25, 50, 75, 90, 99];
+const OTHER_VALUE = '(other)';
+
+/**
+ * Summarize accepted and rejected candidates
+ * Histograms share bucket boundaries so accepted and rejected can be compared directly
+ */
+export function summarizeCandidates(
+  accepted: CandidateOptions[],
+  rejected: CandidateOptions[],
+  options: SummaryOptions = {}
+): CandidateSummary {
+  const buckets = options.histogramBuckets || 10;
+  const acceptedScores = scoresOf(accepted);
+  const rejectedScores = scoresOf(rejected);
+  const ends = [acceptedScores, rejectedScores]
+    .filter(scores => scores.length > 0)
+    .flatMap(scores => [scores[0], scores[scores.length - 1]]);
+  const range = ends.length > 0
+    ? { min: Math.min(...ends), max: Math.max(...ends) }
+    : null;
+
+  const rejectionReasons: Record<string, number> = {};
+  for (const candidate of rejected) {
+    const reason = candidate.reason || 'Filtered out';
+    rejectionReasons[reason] = (rejectionReasons[reason] || 0) + 1;
+  }
+
+  const fields: CandidateSummary['fields'] = {};
+  for (const field of options.fields || []) {
+    fields[field] = countFieldValues(field, accepted, rejected, options.maxFieldValues || 50);
+  }
+
+  return {
+    total: accepted.length + rejected.length,
+    accepted: accepted.length,
+    rejected: rejected.length,
+    scores: {
+      accepted: scoreStats(acceptedScores, range, buckets),
+      rejected: scoreStats(rejectedScores, range, buckets)
+    },
+    rejectionReasons,
+    fields
+  };
+}
+
+function scoresOf(candidates: CandidateOptions[]): number[] {
+  return candidates
+    .map(c => c.score)
+    .filter((score): score is number => typeof score === 'number' && Number.isFinite(score))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * @param sorted - Scores in ascending order
+ * @param range - Combined score range used for the histogram boundaries
+ */
+function scoreStats(
+  sorted: number[],
+  range: { min: number; max: number } | null,
+  buckets: number
+): ScoreStats {
+  if (sorted.length === 0 || !range) {
+    return { count: 0, percentiles: {}, histogram: [] };
+  }
+
+  const percentiles: Record<string, number> = {};
+  for (const p of PERCENTILES) {
+    // Nearest-rank percentile
+    const rank = Math.max(Math.ceil((p / 100) * sorted.length) - 1, 0);
+    percentiles[`p${p}`] = sorted[rank];
+  }
+
+  const width = (range.max - range.min) / buckets || 1;
+  const histogram = Array.from({ length: buckets }, (_, i) => ({
+    lower: range.min + i * width,
+    upper: range.min + (i + 1) * width,
+    count: 0
+  }));
+  for (const score of sorted) {
+    const index = Math.min(Math.floor((score - range.min) / width), buckets - 1);
+    histogram[index].count++;
+  }
+
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, s) => sum + s, 0) / sorted.length,
+    percentiles,
+    histogram
+  };
+}
+
+/**
+ * Count accepted/rejected candidates per value of a data field
+ * Only the most frequent values are kept; the rest are folded into '(other)'
+ */
+function countFieldValues(
+  field: string,
+  accepted: CandidateOptions[],
+  rejected: CandidateOptions[],
+  maxValues: number
+): Record<string, { accepted: number; rejected: number }> {
+  const counts = new Map<string, { accepted: number; rejected: number }>();
+  const add = (candidate: CandidateOptions, status: 'accepted' | 'rejected') => {
+    const raw = candidate.data?.[field];
+    const value = raw === undefined || raw === null ? '(none)' : String(raw);
+    const entry = counts.get(value) || { accepted: 0, rejected: 0 };
+    entry[status]++;
+    counts.set(value, entry);
+  };
+  accepted.forEach(c => add(c, 'accepted'));
+  rejected.forEach(c => add(c, 'rejected'));
+
+  const ranked = [...counts.entries()]
+    .sort((a, b) => (b[1].accepted + b[1].rejected) - (a[1].accepted + a[1].rejected));
+
+  const result: Record<string, { accepted: number; rejected: number }> = {};
+  for (const [value, entry] of ranked.slice(0, maxValues)) {
+    result[value] = entry;
+  }
+  for (const [, entry] of ranked.slice(maxValues)) {
+    const other = result[OTHER_VALUE] || { accepted: 0, rejected: 0 };
+    other.accepted += entry.accepted;
+    other.rejected += entry.rejected;
+    result[OTHER_VALUE] = other;
+  }
+  return result;
+}
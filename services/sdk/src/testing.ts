@@ -0,0 +1,508 @@
+/**
+ * X-Ray SDK - Test Recorder
+ * Records runs in memory instead of sending them to the API, with assertion
+ * helpers and snapshot-friendly serialization, so the tracing of a pipeline
+ * can be unit-tested without stubbing HTTP or running a database.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { XRayClient } from './client';
+import { sendEvent } from './spool';
+import { XRay, XRayConfig } from './xray';
+import {
+  Run,
+  Step,
+  Candidate,
+  Filter,
+  LLMCall,
+  BulkRunPayload,
+  BulkRunResult,
+  BulkStepPayload,
+  BulkStepResult,
+  IngestEvent,
+  IngestEventResult
+} from '@xray/shared';
+
+export interface RecordedStep extends Step {
+  candidates: Candidate[];
+  filters: Filter[];
+  llmCalls: LLMCall[];
+}
+
+export interface RecordedRun extends Run {
+  steps: RecordedStep[];   // In stepIndex order
+}
+
+/**
+ * Thrown by the recorder's assertion helpers
+ */
+export class XRayAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XRayAssertionError';
+  }
+}
+
+/**
+ * XRayClient that keeps everything in memory
+ * Behaves like the API where it matters to tests: client IDs are kept,
+ * repeated creates are no-ops, and writes to unknown runs/steps fail.
+ */
+export class MemoryTransport extends XRayClient {
+  private runs: Map<string, Run> = new Map();
+  private steps: Map<string, RecordedStep> = new Map();
+
+  constructor() {
+    super({ apiUrl: 'memory://xray' });
+  }
+
+  async createRun(run: Omit<Run, 'id' | 'status'> & { id?: string }): Promise<Run> {
+    return copy(this.storeRun(run));
+  }
+
+  async createRunBulk(payload: BulkRunPayload): Promise<BulkRunResult> {
+    const { steps = [], ...runData } = payload;
+    const run = this.storeRun({ startedAt: new Date(), metadata: {}, input: undefined, ...runData });
+    let stepIndex = 0;
+
+    // Depth-first, like the API: a parent's index comes before its children's
+    const store = (nodes: BulkStepPayload[], parentStepId?: string): BulkStepResult[] => nodes.map(node => {
+      const { candidates = [], filters = [], children = [], ...stepData } = node;
+      const step = this.storeStep({
+        stepIndex: stepIndex++,
+        startedAt: new Date(),
+        input: undefined,
+        metadata: {},
+        ...stepData,
+        runId: run.id,
+        parentStepId
+      });
+      const filterIds = filters.map(f => this.storeFilter(step.id, {
+        config: {}, candidatesAffected: 0, candidatesRejected: 0, metadata: {}, ...f
+      }).id);
+      const candidateIds = candidates.map(c => this.storeCandidate(step.id, {
+        status: 'pending', data: {}, metadata: {}, ...c
+      }).id);
+      return { id: step.id, stepIndex: step.stepIndex, candidateIds, filterIds, children: store(children, step.id) };
+    });
+
+    return { id: run.id, steps: store(steps) };
+  }
+
+  async updateRun(runId: string, updates: Partial<Run>): Promise<Run> {
+    const run = this.runs.get(runId);
+    if (!run) {
+      throw new Error(`Run with id ${runId} not found`);
+    }
+    Object.assign(run, copy(updates), { id: runId });
+    return copy(run);
+  }
+
+  async heartbeat(runId: string): Promise<Run> {
+    const run = this.runs.get(runId);
+    if (!run) {
+      throw new Error(`Run with id ${runId} not found`);
+    }
+    run.lastHeartbeatAt = new Date();
+    return copy(run);
+  }
+
+  async createStep(step: Omit<Step, 'id' | 'status'> & { id?: string }): Promise<Step> {
+    const { candidates, filters, llmCalls, ...stored } = this.storeStep(step);
+    return copy(stored);
+  }
+
+  async updateStep(stepId: string, updates: Partial<Step>): Promise<Step> {
+    const step = this.requireStep(stepId);
+    Object.assign(step, copy(updates), { id: stepId });
+    const { candidates, filters, llmCalls, ...stored } = step;
+    return copy(stored);
+  }
+
+  async createCandidates(
+    stepId: string,
+    candidates: (Omit<Candidate, 'id' | 'stepId'> & { id?: string })[]
+  ): Promise<Candidate[]> {
+    return candidates.map(c => copy(this.storeCandidate(stepId, c)));
+  }
+
+  async createFilter(stepId: string, filter: Omit<Filter, 'stepId'>): Promise<Filter> {
+    return copy(this.storeFilter(stepId, filter));
+  }
+
+  async createLLMCall(stepId: string, call: Omit<LLMCall, 'stepId'>): Promise<LLMCall> {
+    const step = this.requireStep(stepId);
+    const existing = step.llmCalls.find(c => c.id === call.id);
+    if (existing) {
+      return copy(existing);
+    }
+    const stored: LLMCall = { ...copy(call), stepId };
+    step.llmCalls.push(stored);
+    return copy(stored);
+  }
+
+  async sendEvents(events: IngestEvent[]): Promise<IngestEventResult[]> {
+    const results: IngestEventResult[] = [];
+    for (let index = 0; index < events.length; index++) {
+      try {
+        await sendEvent(this, events[index]);
+        results.push({ index, status: events[index].type.startsWith('create') ? 201 : 200 });
+      } catch (error: any) {
+        results.push({ index, status: 400, error: error.message });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Every recorded run with its steps, candidates, filters and LLM calls, in creation order
+   */
+  getRuns(): RecordedRun[] {
+    return [...this.runs.values()].map(run => this.assemble(run));
+  }
+
+  getRun(runId: string): RecordedRun | undefined {
+    const run = this.runs.get(runId);
+    return run ? this.assemble(run) : undefined;
+  }
+
+  /**
+   * Forget everything recorded so far
+   */
+  clear(): void {
+    this.runs.clear();
+    this.steps.clear();
+  }
+
+  private assemble(run: Run): RecordedRun {
+    const steps = [...this.steps.values()]
+      .filter(step => step.runId === run.id)
+      .sort((a, b) => a.stepIndex - b.stepIndex);
+    return copy({ ...run, steps });
+  }
+
+  private storeRun(run: Partial<Run>): Run {
+    const existing = run.id ? this.runs.get(run.id) : undefined;
+    if (existing) {
+      return existing;
+    }
+    const stored = { status: 'running', metadata: {}, ...copy(run), id: run.id || uuidv4() } as Run;
+    this.runs.set(stored.id, stored);
+    return stored;
+  }
+
+  private storeStep(step: Partial<Step>): RecordedStep {
+    const existing = step.id ? this.steps.get(step.id) : undefined;
+    if (existing) {
+      return existing;
+    }
+    if (!step.runId || !this.runs.has(step.runId)) {
+      throw new Error(`Run with id ${step.runId} not found`);
+    }
+    const stored = {
+      status: 'running',
+      metadata: {},
+      ...copy(step),
+      id: step.id || uuidv4(),
+      candidates: [],
+      filters: [],
+      llmCalls: []
+    } as RecordedStep;
+    this.steps.set(stored.id, stored);
+    return stored;
+  }
+
+  private storeCandidate(stepId: string, candidate: Partial<Candidate>): Candidate {
+    const step = this.requireStep(stepId);
+    const existing = candidate.id ? step.candidates.find(c => c.id === candidate.id) : undefined;
+    if (existing) {
+      return existing;
+    }
+    const stored = { metadata: {}, ...copy(candidate), id: candidate.id || uuidv4(), stepId } as Candidate;
+    step.candidates.push(stored);
+    return stored;
+  }
+
+  private storeFilter(stepId: string, filter: Partial<Filter>): Filter {
+    const step = this.requireStep(stepId);
+    const existing = filter.id ? step.filters.find(f => f.id === filter.id) : undefined;
+    if (existing) {
+      return existing;
+    }
+    const stored = { metadata: {}, ...copy(filter), id: filter.id || uuidv4(), stepId } as Filter;
+    step.filters.push(stored);
+    return stored;
+  }
+
+  private requireStep(stepId: string): RecordedStep {
+    const step = this.steps.get(stepId);
+    if (!step) {
+      throw new Error(`Step with id ${stepId} not found`);
+    }
+    return step;
+  }
+}
+
+/**
+ * An XRay instance wired to a MemoryTransport, plus assertions over what it recorded
+ *
+ * const recorder = new XRayRecorder({ samplingSeed: 1 });
+ * await competitorSelection(recorder.xray, product);
+ * recorder.expectStep('filtering').toHaveRejected('P003', /price/);
+ * expect(recorder.snapshot()).toMatchSnapshot();
+ */
+export class XRayRecorder {
+  readonly transport: MemoryTransport;
+  readonly xray: XRay;
+
+  constructor(config: Partial<XRayConfig> = {}) {
+    this.transport = new MemoryTransport();
+    this.xray = new XRay({ apiUrl: 'memory://xray', ...config, client: this.transport });
+  }
+
+  /**
+   * Recorded runs, in the order they were started
+   */
+  get runs(): RecordedRun[] {
+    return this.transport.getRuns();
+  }
+
+  /**
+   * The most recently started run (or the run with the given ID)
+   */
+  run(runId?: string): RecordedRun {
+    const run = runId ? this.transport.getRun(runId) : this.runs[this.runs.length - 1];
+    if (!run) {
+      throw new XRayAssertionError(runId ? `No run ${runId} was recorded` : 'No run was recorded');
+    }
+    return run;
+  }
+
+  expectRun(runId?: string): RunAssertion {
+    return new RunAssertion(this.run(runId));
+  }
+
+  /**
+   * Assert on a step of the latest run (or the given run) by type
+   * @param occurrence - Which step of that type, in step order (default: the first)
+   */
+  expectStep(stepType: string, options: { occurrence?: number; runId?: string } = {}): StepAssertion {
+    const run = this.run(options.runId);
+    const occurrence = options.occurrence || 0;
+    const step = run.steps.filter(s => s.stepType === stepType)[occurrence];
+    if (!step) {
+      throw new XRayAssertionError(
+        `Expected run ${run.id} to have ${occurrence > 0 ? `${occurrence + 1} steps` : 'a step'} of type '${stepType}'; `
+        + `its steps are: ${run.steps.map(s => `'${s.stepType}'`).join(', ') || 'none'}`
+      );
+    }
+    return new StepAssertion(step);
+  }
+
+  /**
+   * The latest run (or the given run) with stable IDs and timestamps, for snapshot tests
+   * IDs become 'run-1', 'step-1', 'candidate-1', ... in recording order, wherever they
+   * are referenced; dates become '[date]' and measured durations '[duration]'.
+   * Fix samplingSeed so sampled candidates are stable too.
+   */
+  snapshot(runId?: string): Record<string, any> {
+    return serializeRun(this.run(runId));
+  }
+
+  /**
+   * Forget every recorded run
+   */
+  reset(): void {
+    this.transport.clear();
+  }
+}
+
+export class RunAssertion {
+  private run: RecordedRun;
+
+  constructor(run: RecordedRun) {
+    this.run = run;
+  }
+
+  toHaveStatus(status: Run['status']): this {
+    if (this.run.status !== status) {
+      throw new XRayAssertionError(`Expected run ${this.run.id} to be ${status}, but it is ${this.run.status}`);
+    }
+    return this;
+  }
+
+  /**
+   * Step types in step order must equal the given list
+   */
+  toHaveStepTypes(stepTypes: string[]): this {
+    const actual = this.run.steps.map(s => s.stepType);
+    if (actual.join('\n') !== stepTypes.join('\n')) {
+      throw new XRayAssertionError(
+        `Expected run ${this.run.id} to have steps [${stepTypes.join(', ')}], but it has [${actual.join(', ')}]`
+      );
+    }
+    return this;
+  }
+}
+
+export class StepAssertion {
+  private step: RecordedStep;
+
+  constructor(step: RecordedStep) {
+    this.step = step;
+  }
+
+  toHaveStatus(status: Step['status']): this {
+    if (this.step.status !== status) {
+      throw new XRayAssertionError(`${this.describe()} to be ${status}, but it is ${this.step.status}`);
+    }
+    return this;
+  }
+
+  toHaveAccepted(candidateId: string): this {
+    const candidate = this.candidate(candidateId);
+    if (candidate.status !== 'accepted') {
+      throw new XRayAssertionError(
+        `${this.describe()} to have accepted ${candidateId}, but it was ${candidate.status}`
+        + (candidate.reason ? ` (reason: '${candidate.reason}')` : '')
+      );
+    }
+    return this;
+  }
+
+  /**
+   * @param reason - Expected rejection reason: a substring, or a pattern
+   */
+  toHaveRejected(candidateId: string, reason?: string | RegExp): this {
+    const candidate = this.candidate(candidateId);
+    if (candidate.status !== 'rejected') {
+      throw new XRayAssertionError(`${this.describe()} to have rejected ${candidateId}, but it was ${candidate.status}`);
+    }
+    const actual = candidate.reason || '';
+    const matches = reason === undefined
+      || (typeof reason === 'string' ? actual.includes(reason) : new RegExp(reason.source, reason.flags.replace('g', '')).test(actual));
+    if (!matches) {
+      throw new XRayAssertionError(
+        `${this.describe()} to have rejected ${candidateId} with a reason matching ${reason}, but the reason was '${actual}'`
+      );
+    }
+    return this;
+  }
+
+  /**
+   * A filter of this type was recorded (with this config, if given)
+   */
+  toHaveFilter(filterType: string, config?: Record<string, any>): this {
+    const filters = this.step.filters.filter(f => f.filterType === filterType);
+    if (filters.length === 0) {
+      throw new XRayAssertionError(
+        `${this.describe()} to have a '${filterType}' filter; its filters are: `
+        + (this.step.filters.map(f => `'${f.filterType}'`).join(', ') || 'none')
+      );
+    }
+    if (config && !filters.some(f => JSON.stringify(f.config) === JSON.stringify(config))) {
+      throw new XRayAssertionError(
+        `${this.describe()} to have a '${filterType}' filter with config ${JSON.stringify(config)}, `
+        + `but found ${filters.map(f => JSON.stringify(f.config)).join(', ')}`
+      );
+    }
+    return this;
+  }
+
+  toHaveCounts(counts: { input?: number; output?: number }): this {
+    if ((counts.input !== undefined && this.step.inputCount !== counts.input)
+      || (counts.output !== undefined && this.step.outputCount !== counts.output)) {
+      throw new XRayAssertionError(
+        `${this.describe()} to have counts ${JSON.stringify(counts)}, `
+        + `but it has ${JSON.stringify({ input: this.step.inputCount, output: this.step.outputCount })}`
+      );
+    }
+    return this;
+  }
+
+  /**
+   * At least one LLM call was recorded (to this model, if given)
+   */
+  toHaveLLMCall(model?: string): this {
+    if (!this.step.llmCalls.some(c => model === undefined || c.model === model)) {
+      throw new XRayAssertionError(
+        `${this.describe()} to have an LLM call${model ? ` to ${model}` : ''}; `
+        + `it called: ${this.step.llmCalls.map(c => c.model).join(', ') || 'nothing'}`
+      );
+    }
+    return this;
+  }
+
+  private candidate(candidateId: string): Candidate {
+    const candidate = this.step.candidates.find(c => c.candidateId === candidateId);
+    if (!candidate) {
+      throw new XRayAssertionError(
+        `${this.describe()} to have recorded candidate ${candidateId}, but it recorded `
+        + `${this.step.candidates.length} candidates (${this.step.candidates.slice(0, 10).map(c => c.candidateId).join(', ')}`
+        + `${this.step.candidates.length > 10 ? ', ...' : ''})`
+      );
+    }
+    return candidate;
+  }
+
+  private describe(): string {
+    return `Expected step '${this.step.stepType}' (index ${this.step.stepIndex})`;
+  }
+}
+
+/**
+ * Replace generated IDs with labels in recording order, and dates and
+ * measured durations with placeholders
+ */
+function serializeRun(run: RecordedRun): Record<string, any> {
+  const labels = new Map<string, string>();
+  const label = (id: string | undefined, kind: string, counter: { n: number }) => {
+    if (id && !labels.has(id)) {
+      labels.set(id, `${kind}-${++counter.n}`);
+    }
+  };
+
+  label(run.id, 'run', { n: 0 });
+  const counters = { step: { n: 0 }, filter: { n: 0 }, candidate: { n: 0 }, llmCall: { n: 0 } };
+  for (const step of run.steps) {
+    label(step.id, 'step', counters.step);
+    step.filters.forEach(f => label(f.id, 'filter', counters.filter));
+    step.candidates.forEach(c => label(c.id, 'candidate', counters.candidate));
+    step.llmCalls.forEach(c => label(c.id, 'llm-call', counters.llmCall));
+  }
+
+  const stabilize = (value: any, key?: string): any => {
+    // Not instanceof: under test runners that sandbox globals (Jest), copied dates come from another realm
+    if (Object.prototype.toString.call(value) === '[object Date]') {
+      return '[date]';
+    }
+    if (key === 'durationMs' && typeof value === 'number') {
+      return '[duration]';
+    }
+    if (typeof value === 'string') {
+      return labels.get(value) ?? value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => stabilize(item));
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, any> = {};
+      for (const [childKey, child] of Object.entries(value)) {
+        if (child !== undefined) {
+          result[childKey] = stabilize(child, childKey);
+        }
+      }
+      return result;
+    }
+    return value;
+  };
+
+  return stabilize(run);
+}
+
+/**
+ * Deep copy, so recorded state cannot be changed through returned objects (Dates stay Dates)
+ */
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
@@ -0,0 +1,77 @@
+/**
+ * X-Ray SDK - Trace Sampling
+ * Decides which runs are stored. Head sampling keeps a fixed share of runs per
+ * pipeline; tail rules, evaluated when a run completes, keep every run that
+ * failed or looks anomalous regardless of the head decision.
+ */
+
+import { Run, Step } from '@xray/shared';
+
+export interface TraceSamplingPolicy {
+  rate?: number;                          // Share of runs kept up front, 0..1 (default: 1)
+  rates?: Record<string, number>;         // Per-pipelineId rates, overriding rate
+  keepErrors?: boolean;                   // Keep runs completed with an error (default: true)
+  keepFailedSteps?: boolean;              // Keep runs with a failed step (default: true)
+  eliminationRatioThreshold?: number;     // Keep runs where a step rejected more than this share of its input
+  keep?: (run: Run, steps: Step[]) => boolean; // Custom tail rule: return true to keep
+}
+
+export type TraceKeptBy = 'head' | 'error' | 'failed-step' | 'elimination-ratio' | 'custom';
+
+/**
+ * Head sampling rate for a pipeline
+ */
+export function headRate(policy: TraceSamplingPolicy, pipelineId: string): number {
+  const rate = policy.rates?.[pipelineId] ?? policy.rate ?? 1;
+  return Math.min(Math.max(rate, 0), 1);
+}
+
+/**
+ * First tail rule that keeps a completed run
+ * @param steps - Steps the rules look at
+ * @param stepReasons - Rules already matched by steps no longer held (see stepKeepReason)
+ * @returns The rule that matched, or null if only head sampling can keep the run
+ */
+export function tailKeepReason(
+  policy: TraceSamplingPolicy,
+  run: Run,
+  steps: Step[],
+  stepReasons: TraceKeptBy[] = []
+): TraceKeptBy | null {
+  if ((policy.keepErrors ?? true) && run.error) {
+    return 'error';
+  }
+  const matched = new Set([...stepReasons, ...steps.map(step => stepKeepReason(policy, step))]);
+  if (matched.has('failed-step')) {
+    return 'failed-step';
+  }
+  if (matched.has('elimination-ratio')) {
+    return 'elimination-ratio';
+  }
+  if (policy.keep?.(run, steps)) {
+    return 'custom';
+  }
+  return null;
+}
+
+/**
+ * Tail rule a single step matches on its own, so a finished step need not be
+ * held until the run completes just to be checked
+ */
+export function stepKeepReason(policy: TraceSamplingPolicy, step: Step): TraceKeptBy | null {
+  if ((policy.keepFailedSteps ?? true) && step.status === 'failed') {
+    return 'failed-step';
+  }
+  const threshold = policy.eliminationRatioThreshold;
+  if (threshold !== undefined && eliminationRatio(step) > threshold) {
+    return 'elimination-ratio';
+  }
+  return null;
+}
+
+function eliminationRatio(step: Step): number {
+  if (!step.inputCount || step.outputCount === undefined) {
+    return 0;
+  }
+  return (step.inputCount - step.outputCount) / step.inputCount;
+}
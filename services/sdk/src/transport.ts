@@ -0,0 +1,189 @@
+/**
+ * X-Ray SDK - Buffered Transport
+ * Queues events in memory and sends them in batches, so tracing calls never
+ * wait on the network. One batch is in flight at a time, which keeps events
+ * in recording order (and therefore in order per run).
+ */
+
+import { XRayClient, isTransientError } from './client';
+import { Spool, SpoolEvent } from './spool';
+import { XRayLogger } from './logger';
+
+export interface BufferConfig {
+  maxBatchSize?: number;         // Events per request; a full batch is sent right away (default: 100)
+  maxBatchBytes?: number;        // Serialized events per request, kept below the API's body limit (default: 5 MiB)
+  flushIntervalMs?: number;      // How often queued events are sent (default: 1000)
+  maxQueueSize?: number;         // Events held in memory before overflow applies (default: 10000)
+  overflow?: 'drop' | 'spool';   // Full queue: drop new events, or move the queue to the spool (default: 'drop')
+}
+
+export class BufferedTransport {
+  private client: XRayClient;
+  private config: Required<BufferConfig>;
+  private spool: Spool | null;
+  private logger: XRayLogger;
+  private queue: SpoolEvent[] = [];
+  private flushing: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private dropped: number = 0;
+  private spillPending: boolean = false;  // Overflow is waiting for the batch in flight before spooling
+
+  /**
+   * @param spool - Where events go when the API is unreachable (and on overflow: 'spool');
+   *                without one, failed batches stay queued for the next flush
+   * @param logger - Where rejected and undelivered events are reported
+   */
+  constructor(client: XRayClient, config: BufferConfig, spool: Spool | null, logger: XRayLogger = console) {
+    this.client = client;
+    this.config = {
+      maxBatchSize: 100,
+      maxBatchBytes: 5 * 1024 * 1024,
+      flushIntervalMs: 1000,
+      maxQueueSize: 10000,
+      overflow: 'drop',
+      ...config
+    };
+    this.spool = spool;
+    this.logger = logger;
+  }
+
+  /**
+   * Number of events dropped because the queue was full
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Queue an event; never waits on the network
+   * While the spool holds events, new ones are spooled behind them to keep ordering
+   */
+  enqueue(event: SpoolEvent): void {
+    if (this.spool?.hasPending()) {
+      void this.spool.append(event);
+      return;
+    }
+
+    if (this.queue.length >= this.config.maxQueueSize) {
+      if (this.config.overflow === 'spool' && this.spool) {
+        // Spooled by the flush once the batch in flight is settled, so a batch that
+        // fails goes to the spool ahead of these events rather than after them
+        this.queue.push(event);
+        this.spillPending = true;
+        void this.flush();
+        return;
+      }
+      if (this.dropped++ === 0) {
+        this.logger.warn(`[X-Ray] Event queue full (${this.config.maxQueueSize}); dropping new events`);
+      }
+      return;
+    }
+
+    this.queue.push(event);
+    this.start();
+    if (this.queue.length >= this.config.maxBatchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Send everything queued, batch by batch.
+   * Stops early (without throwing) if the API is unreachable; the rest is
+   * spooled, or kept for the next flush when there is no spool.
+   * Concurrent calls share the same in-flight flush.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Start the background flusher (no-op if already running).
+   * The timer is unref'd so it never keeps the process alive.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, this.config.flushIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the background flusher
+   * Events still queued are reported, since they are lost when the process exits
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.queue.length > 0) {
+      this.logger.warn(`[X-Ray] ${this.queue.length} queued events were not delivered`);
+    }
+  }
+
+  private async drain(): Promise<void> {
+    while (this.queue.length > 0) {
+      if (this.spool && (this.spillPending || this.spool.hasPending())) {
+        await this.spoolQueue();
+        return;
+      }
+
+      const batch = this.nextBatch();
+      try {
+        const results = await this.client.sendEvents(batch);
+        for (const result of results) {
+          if (result.status >= 400) {
+            // The API rejected the event itself; retrying will never succeed
+            this.logger.warn(`[X-Ray] API rejected ${batch[result.index]?.type}:`, result.error);
+          }
+        }
+      } catch (error: any) {
+        if (!isTransientError(error)) {
+          this.logger.warn(`[X-Ray] API rejected a batch of ${batch.length} events:`, error.message);
+          continue;
+        }
+        // Put the batch back ahead of anything queued since, then hand off or wait
+        this.queue.unshift(...batch);
+        if (this.spool) {
+          await this.spoolQueue();
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Take the next batch off the queue: up to maxBatchSize events, and no more
+   * than maxBatchBytes of them; an event larger than that is sent on its own
+   */
+  private nextBatch(): SpoolEvent[] {
+    let count = 0;
+    let bytes = 0;
+    while (count < this.queue.length && count < this.config.maxBatchSize) {
+      bytes += Buffer.byteLength(JSON.stringify(this.queue[count]));
+      if (count > 0 && bytes > this.config.maxBatchBytes) {
+        break;
+      }
+      count++;
+    }
+    return this.queue.splice(0, count);
+  }
+
+  /**
+   * Move the whole queue to the spool, in order
+   * Appends are issued synchronously so no new event can slip in between
+   */
+  private async spoolQueue(): Promise<void> {
+    this.spillPending = false;
+    const events = this.queue.splice(0);
+    await Promise.all(events.map(event => this.spool!.append(event)));
+  }
+}
@@ -4,35 +4,84 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { XRayClient } from './client';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { XRayClient, RetryOptions, RetryEvent, isTransientError } from './client';
+import { Spool, SpoolEvent, sendEvent } from './spool';
+import { FileTransport } from './file';
+import { RunHandle } from './run';
+import { BufferedTransport, BufferConfig } from './transport';
+import { TraceSamplingPolicy, headRate } from './tracesampling';
+import { Redactor, RedactionPolicy } from './redaction';
+import { Truncator, PayloadLimits } from './limits';
+import { OTelBridge, OTelOptions } from './otel';
+import { FilterRule } from './rules';
+import { XRayLogger } from './logger';
 import {
   Run,
   Step,
-  Candidate,
   Filter,
   RunOptions,
   StepOptions,
   CandidateOptions,
-  FilterOptions
+  FilterOptions,
+  LLMCall,
+  LLMCallOptions,
+  SamplingStrategy
 } from '@xray/shared';
 
 export interface XRayConfig {
   apiUrl: string;
+  apiKey?: string;                // Project API key (default: XRAY_API_KEY)
   timeout?: number;
-  retryOnFailure?: boolean;
+  retryOnFailure?: boolean | RetryOptions; // true for default backoff, or tune attempts/delays
+  onRetry?: (event: RetryEvent) => void;    // Called before each retried request
+  onFailure?: (event: RetryEvent) => void;  // Called when a request fails for good
+  client?: XRayClient;            // Send through this client instead of one built from apiUrl (e.g. a MemoryTransport in tests)
+  logger?: XRayLogger;            // Where problems the SDK handles without throwing are reported (default: console; silentLogger discards them)
   // Performance thresholds
   fullCaptureThreshold?: number; // Capture all candidates if count < this
   summaryThreshold?: number;     // Use summary if count > this
   topAcceptedCount?: number;      // Number of top accepted to capture
   sampleRejectedCount?: number;   // Number of rejected to sample
+  sampling?: SamplingStrategy;    // Which rejected to sample (default: seeded random)
+  samplingSeed?: number;          // Fixed seed for every step (default: fresh seed per step)
+  // Candidate summary (computed over all candidates, captured or not)
+  summaryFields?: string[];       // data fields to count per value (e.g. ['category'])
+  histogramBuckets?: number;      // Score histogram buckets (default: 10)
+  // Fail-open mode
+  failOpen?: boolean;             // Never throw on API failures; spool events to disk instead
+  spoolDir?: string;              // Directory for spooled events (default: ./.xray-spool)
+  spoolFlushIntervalMs?: number;  // How often to retry replaying spooled events
+  // Trace sampling (which runs are stored at all)
+  traceSampling?: TraceSamplingPolicy; // Head rate per pipeline plus tail rules that keep failed/anomalous runs
+  // PII redaction (applied to every payload before it is sent or spooled)
+  redaction?: RedactionPolicy;
+  // Payload limits (oversized content fields are truncated with a marker; on by default)
+  payloadLimits?: false | PayloadLimits;
+  // OpenTelemetry (requires @opentelemetry/api)
+  otel?: boolean | OTelOptions;   // Emit runs and steps as spans; records trace/span IDs in run metadata.otel
+  // Buffered transport
+  buffered?: boolean | BufferConfig; // Queue events and send them in batches; calls never wait on the API
+  // File transport (for hosts without access to the API)
+  outputFile?: string;            // Append events to this NDJSON file instead of sending them; import with `npm run import`
+  // Heartbeats (keep slow runs from being abandoned by the API's stuck-run sweeper)
+  heartbeatIntervalMs?: number;   // Report each running run as alive this often (default: off; not sent with outputFile)
 }
 
 export class XRay {
   private client: XRayClient;
   private config: XRayConfig;
-  private currentRun: Run | null = null;
-  private stepIndex: number = 0;
-  private pendingSteps: Map<string, Step> = new Map();
+  private logger: XRayLogger;
+  private spool: Spool | null = null;
+  private transport: BufferedTransport | null = null;
+  private file: FileTransport | null = null;
+  private redactor: Redactor | null = null;
+  private truncator: Truncator | null = null;
+  private otel: OTelBridge | null = null;
+  private context: AsyncLocalStorage<RunHandle> = new AsyncLocalStorage();
+  private currentRun: RunHandle | null = null;
+  private delivery: Promise<void> = Promise.resolve();
 
   constructor(config: XRayConfig) {
     this.config = {
@@ -42,17 +91,57 @@ export class XRay {
       sampleRejectedCount: 20,
       ...config
     };
-    this.client = new XRayClient({
+    this.logger = config.logger ?? console;
+    this.client = config.client || new XRayClient({
       apiUrl: config.apiUrl,
+      apiKey: config.apiKey ?? process.env.XRAY_API_KEY,
       timeout: config.timeout,
-      retryOnFailure: config.retryOnFailure
+      retryOnFailure: config.retryOnFailure,
+      onRetry: config.onRetry,
+      onFailure: config.onFailure
     });
+
+    if (this.config.redaction) {
+      this.redactor = new Redactor(this.config.redaction);
+    }
+
+    if (this.config.payloadLimits !== false) {
+      this.truncator = new Truncator(this.config.payloadLimits);
+    }
+
+    if (this.config.otel) {
+      this.otel = new OTelBridge(typeof this.config.otel === 'object' ? this.config.otel : {});
+    }
+
+    if (this.config.outputFile) {
+      this.file = new FileTransport(this.config.outputFile, this.logger);
+      return;
+    }
+
+    const { buffered } = this.config;
+    const bufferConfig: BufferConfig | null = buffered
+      ? (typeof buffered === 'object' ? buffered : {})
+      : null;
+
+    if (this.config.failOpen || bufferConfig?.overflow === 'spool') {
+      this.spool = new Spool(this.client, {
+        directory: this.config.spoolDir || path.join(process.cwd(), '.xray-spool'),
+        flushIntervalMs: this.config.spoolFlushIntervalMs,
+        logger: this.logger
+      });
+    }
+
+    if (bufferConfig) {
+      this.transport = new BufferedTransport(this.client, bufferConfig, this.spool, this.logger);
+    }
   }
 
   /**
    * Start a new run (pipeline execution)
+   * The returned handle is independent of other runs on this instance;
+   * it also becomes the current run for the single-run convenience methods.
    */
-  async startRun(options: RunOptions): Promise<Run> {
+  async startRun(options: RunOptions): Promise<RunHandle> {
     const run: Run = {
       id: uuidv4(),
       pipelineId: options.pipelineId,
@@ -63,95 +152,88 @@ export class XRay {
       input: options.input
     };
 
-    // Don't send id, startedAt, status - API generates these
-    const { id, startedAt, status, ...runData } = run;
-    
-    // Create run in API and get the actual ID
-    const createdRun = await this.client.createRun(runData);
-    
-    // Use the ID from the API response and convert date strings to Date objects
-    run.id = createdRun.id;
-    run.startedAt = new Date(createdRun.startedAt);
-    run.status = createdRun.status;
-
-    this.currentRun = run;
-    this.stepIndex = 0;
-    this.pendingSteps.clear();
-
-    return run;
+    // The API keeps the client-generated ID, so the run is usable without its response
+    const policy = this.config.traceSampling;
+    const handle = new RunHandle(run, this.config, event => this.send(event), {
+      headRate: policy ? headRate(policy, run.pipelineId) : undefined,
+      redactor: this.redactor || undefined,
+      truncator: this.truncator || undefined,
+      otel: this.otel || undefined,
+      logger: this.logger,
+      heartbeat: this.config.heartbeatIntervalMs && !this.file
+        ? { intervalMs: this.config.heartbeatIntervalMs, send: runId => this.client.heartbeat(runId) }
+        : undefined
+    });
+    await handle.start();
+    this.currentRun = handle;
+
+    return handle;
   }
 
   /**
-   * Complete a run
+   * Start a run and execute fn with it as the implicit context
+   * Helpers called from fn (however deeply) can use the single-run methods
+   * or getActiveRun() without the handle being passed around.
+   * The run is completed with fn's result, or failed with its error.
    */
-  async completeRun(output?: any, error?: string): Promise<void> {
-    if (!this.currentRun) {
-      throw new Error('No active run. Call startRun() first.');
-    }
-
-    this.currentRun.status = error ? 'failed' : 'completed';
-    this.currentRun.completedAt = new Date();
-    this.currentRun.output = output;
-    this.currentRun.error = error;
+  async withRun<T>(options: RunOptions, fn: (run: RunHandle) => Promise<T>): Promise<T> {
+    const handle = await this.startRun(options);
 
-    for (const step of this.pendingSteps.values()) {
-      if (step.status === 'running') {
-        await this.completeStep(step.id, undefined, 'Run completed');
+    try {
+      const result = await this.context.run(handle, () => fn(handle));
+      if (handle.run.status === 'running') {
+        await handle.complete(result);
+      }
+      return result;
+    } catch (error: any) {
+      if (handle.run.status === 'running') {
+        await handle.complete(undefined, error?.message || String(error));
+      }
+      throw error;
+    } finally {
+      if (this.currentRun === handle) {
+        this.currentRun = null;
       }
     }
+  }
 
-    await this.client.updateRun(this.currentRun.id, {
-      status: this.currentRun.status,
-      completedAt: this.currentRun.completedAt,
-      output: this.currentRun.output,
-      error: this.currentRun.error
-    });
+  /**
+   * Execute fn with an existing run handle as the implicit context
+   */
+  runInContext<T>(handle: RunHandle, fn: () => T): T {
+    return this.context.run(handle, fn);
+  }
 
-    this.currentRun = null;
-    this.stepIndex = 0;
-    this.pendingSteps.clear();
+  /**
+   * Get the run handle in effect here:
+   * the async context run if inside withRun/runInContext, otherwise the current run
+   */
+  getActiveRun(): RunHandle | null {
+    const handle = this.context.getStore() || this.currentRun;
+    return handle && handle.run.status === 'running' ? handle : null;
   }
 
   /**
-   * Start a new step
+   * Complete the active run
    */
-  async startStep(options: StepOptions): Promise<Step> {
-    if (!this.currentRun) {
-      throw new Error('No active run. Call startRun() first.');
-    }
+  async completeRun(output?: any, error?: string): Promise<void> {
+    const handle = this.requireActiveRun();
+    await handle.complete(output, error);
 
-    const step: Step = {
-      id: uuidv4(),
-      runId: this.currentRun.id,
-      stepType: options.stepType,
-      stepIndex: this.stepIndex++,
-      status: 'running',
-      startedAt: new Date(),
-      input: options.input,
-      reasoning: options.reasoning,
-      config: options.config,
-      metadata: options.metadata || {},
-      captureAllCandidates: options.captureAllCandidates
-    };
+    if (this.currentRun === handle) {
+      this.currentRun = null;
+    }
+  }
 
-    // Don't send id, startedAt, status - API generates these
-    const { id, startedAt, status, ...stepData } = step;
-    
-    // Create step in API and get the actual ID
-    const createdStep = await this.client.createStep(stepData);
-    
-    // Use the ID from the API response and convert date strings to Date objects
-    step.id = createdStep.id;
-    step.startedAt = new Date(createdStep.startedAt);
-    step.status = createdStep.status;
-
-    // Store step with correct ID from API
-    this.pendingSteps.set(step.id, step);
-    return step;
+  /**
+   * Start a new step on the active run
+   */
+  async startStep(options: StepOptions): Promise<Step> {
+    return this.requireActiveRun().startStep(options);
   }
 
   /**
-   * Complete a step
+   * Complete a step on the active run
    */
   async completeStep(
     stepId: string,
@@ -159,42 +241,11 @@ export class XRay {
     error?: string,
     reasoning?: string
   ): Promise<void> {
-    const step = this.pendingSteps.get(stepId);
-    if (!step) {
-      throw new Error(`Step ${stepId} not found`);
-    }
-
-    const completedAt = new Date();
-    const durationMs = completedAt.getTime() - step.startedAt.getTime();
-
-    step.status = error ? 'failed' : 'completed';
-    step.completedAt = completedAt;
-    step.output = output;
-    step.error = error;
-    step.durationMs = durationMs;
-    if (reasoning) {
-      step.reasoning = reasoning;
-    }
-
-    // Only send defined fields to avoid validation errors
-    const updates: any = {
-      status: step.status,
-      completedAt: step.completedAt,
-      durationMs: step.durationMs
-    };
-    
-    if (step.output !== undefined) updates.output = step.output;
-    if (step.error !== undefined) updates.error = step.error;
-    if (step.reasoning !== undefined) updates.reasoning = step.reasoning;
-
-    // Update step in API
-    await this.client.updateStep(stepId, updates);
-
-    this.pendingSteps.delete(stepId);
+    return this.requireActiveRun().completeStep(stepId, output, error, reasoning);
   }
 
   /**
-   * Record candidates for a step
+   * Record candidates for a step on the active run
    * Handles performance optimization automatically
    */
   async recordCandidates(
@@ -202,137 +253,117 @@ export class XRay {
     candidates: CandidateOptions[],
     acceptedIds: string[] = []
   ): Promise<void> {
-    const step = this.pendingSteps.get(stepId);
-    if (!step) {
-      throw new Error(`Step ${stepId} not found`);
-    }
+    return this.requireActiveRun().recordCandidates(stepId, candidates, acceptedIds);
+  }
 
-    const totalCount = candidates.length;
-    const acceptedCount = acceptedIds.length;
-    const rejectedCount = totalCount - acceptedCount;
-
-    step.inputCount = totalCount;
-    step.outputCount = acceptedCount;
-
-    const captureAll = step.captureAllCandidates ??
-      (totalCount < (this.config.fullCaptureThreshold || 100));
-
-    const candidatesToRecord: Candidate[] = [];
-
-    if (captureAll) {
-      for (const candidate of candidates) {
-        const status = acceptedIds.includes(candidate.candidateId)
-          ? 'accepted'
-          : 'rejected';
-
-        candidatesToRecord.push({
-          id: uuidv4(),
-          stepId,
-          candidateId: candidate.candidateId,
-          status,
-          score: candidate.score,
-          reason: status === 'rejected' ? 'Filtered out' : undefined,
-          data: candidate.data,
-          metadata: candidate.metadata || {}
-        });
-      }
-    } else {
-      const accepted: CandidateOptions[] = [];
-      const rejected: CandidateOptions[] = [];
-
-      for (const candidate of candidates) {
-        if (acceptedIds.includes(candidate.candidateId)) {
-          accepted.push(candidate);
-        } else {
-          rejected.push(candidate);
-        }
-      }
+  /**
+   * Record a filter applied at a step on the active run
+   */
+  async recordFilter(stepId: string, options: FilterOptions): Promise<Filter> {
+    return this.requireActiveRun().recordFilter(stepId, options);
+  }
 
-      accepted.sort((a, b) => (b.score || 0) - (a.score || 0));
-
-      const topAccepted = accepted.slice(0, this.config.topAcceptedCount || 50);
-      for (const candidate of topAccepted) {
-        candidatesToRecord.push({
-          id: uuidv4(),
-          stepId,
-          candidateId: candidate.candidateId,
-          status: 'accepted',
-          score: candidate.score,
-          data: candidate.data,
-          metadata: candidate.metadata || {}
-        });
-      }
+  /**
+   * Record a model call made by a step on the active run
+   */
+  async recordLLMCall(stepId: string, options: LLMCallOptions): Promise<LLMCall> {
+    return this.requireActiveRun().recordLLMCall(stepId, options);
+  }
 
-      const sampleSize = Math.min(
-        this.config.sampleRejectedCount || 20,
-        rejected.length
-      );
-      const sampled = this.shuffle(rejected).slice(0, sampleSize);
-      for (const candidate of sampled) {
-        candidatesToRecord.push({
-          id: uuidv4(),
-          stepId,
-          candidateId: candidate.candidateId,
-          status: 'rejected',
-          reason: 'Filtered out',
-          data: candidate.data,
-          metadata: candidate.metadata || {}
-        });
-      }
-    }
+  /**
+   * Apply filter rules at a step on the active run and record the outcome
+   * @returns Candidates that passed every rule
+   */
+  async filter(
+    stepId: string,
+    candidates: CandidateOptions[],
+    rules: FilterRule[]
+  ): Promise<CandidateOptions[]> {
+    return this.requireActiveRun().filter(stepId, candidates, rules);
+  }
 
-    if (candidatesToRecord.length > 0) {
-      await this.client.createCandidates(stepId, candidatesToRecord.map(c => ({
-        candidateId: c.candidateId,
-        status: c.status,
-        score: c.score,
-        reason: c.reason,
-        data: c.data,
-        metadata: c.metadata
-      })));
-    }
+  /**
+   * Get the active run
+   */
+  getCurrentRun(): Run | null {
+    return this.getActiveRun()?.run || null;
   }
 
   /**
-   * Record a filter applied at a step
+   * Send everything buffered or spooled now (or finish writing the event file)
+   * With the default (direct) transport only the spool has anything to send
    */
-  async recordFilter(stepId: string, options: FilterOptions): Promise<void> {
-    const filter: Filter = {
-      id: uuidv4(),
-      stepId,
-      filterType: options.filterType,
-      config: options.config,
-      candidatesAffected: options.candidatesAffected,
-      candidatesRejected: options.candidatesRejected,
-      metadata: options.metadata || {}
-    };
+  async flush(): Promise<void> {
+    await this.delivery;
+    await this.file?.flush();
+    await this.transport?.flush();
+    await this.spool?.flush();
+  }
 
-    await this.client.createFilter(stepId, {
-      filterType: filter.filterType,
-      config: filter.config,
-      candidatesAffected: filter.candidatesAffected,
-      candidatesRejected: filter.candidatesRejected,
-      metadata: filter.metadata
-    });
+  /**
+   * Flush, then stop background flushing
+   * Call before the process exits so buffered events are not lost
+   */
+  async shutdown(): Promise<void> {
+    await this.flush();
+    this.transport?.stop();
+    this.spool?.stop();
   }
 
   /**
-   * Get current run
+   * Send an event to the API
+   * Events arrive already redacted and truncated by their RunHandle.
+   * With the buffered transport the event is only queued; with the file transport it is only written.
+   * In fail-open mode the event is delivered in the background (in order, behind
+   * earlier events) so the pipeline never waits on the API or its retries.
+   * @returns The API response, or undefined if the event was queued, spooled or dropped
    */
-  getCurrentRun(): Run | null {
-    return this.currentRun;
+  private async send(event: SpoolEvent): Promise<any> {
+    if (this.file) {
+      await this.file.append(event);
+      return undefined;
+    }
+
+    if (this.transport) {
+      this.transport.enqueue(event);
+      return undefined;
+    }
+
+    if (!this.spool) {
+      return sendEvent(this.client, event);
+    }
+
+    const spool = this.spool;
+    this.delivery = this.delivery.then(() => this.deliver(event, spool));
+    return undefined;
   }
 
   /**
-   * Utility: Shuffle array (Fisher-Yates)
+   * Send an event in fail-open mode; never throws
+   * Transient failures are spooled to disk, and once anything is spooled later
+   * events queue behind it to keep ordering.
    */
-  private shuffle<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  private async deliver(event: SpoolEvent, spool: Spool): Promise<void> {
+    try {
+      if (spool.hasPending()) {
+        await spool.append(event);
+        return;
+      }
+      await sendEvent(this.client, event);
+    } catch (error: any) {
+      if (isTransientError(error)) {
+        await spool.append(event);
+      } else {
+        this.logger.warn(`[X-Ray] API rejected ${event.type}:`, error.message);
+      }
     }
-    return shuffled;
   }
-}
 
+  private requireActiveRun(): RunHandle {
+    const handle = this.getActiveRun();
+    if (!handle) {
+      throw new Error('No active run. Call startRun() first.');
+    }
+    return handle;
+  }
+}
@@ -0,0 +1,163 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { context, trace, SpanStatusCode } from '@opentelemetry/api';
+import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-base';
+import { XRaySpanAttributes as Attr } from '@xray/shared';
+import { XRay, XRayConfig } from '../src/xray';
+import { XRayClient } from '../src/client';
+
+const exporter = new InMemorySpanExporter();
+const provider = new BasicTracerProvider();
+provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+const tracer = provider.getTracer('test');
+
+/**
+ * An XRay whose client accepts every event without an API
+ */
+function newXRay(otel: XRayConfig['otel']): XRay {
+  return new XRay({ apiUrl: 'http://xray.test', otel });
+}
+
+/**
+ * Runs a small pipeline: a filtering step with a ranking sub-step, and a failed step
+ */
+async function runPipeline(xray: XRay) {
+  const run = await xray.startRun({ pipelineId: 'competitor-selection', pipelineVersion: '2', input: {} });
+
+  const filtering = await run.startStep({ stepType: 'filtering' });
+  await run.filter(filtering.id, [
+    { candidateId: 'P001', data: { price: 25 } },
+    { candidateId: 'P002', data: { price: 5 } }
+  ], [{ filterType: 'price-range', config: { min: 10 }, predicate: (c, config) => c.data.price >= config.min }]);
+
+  const ranking = await run.startStep({ stepType: 'ranking', parentStepId: filtering.id });
+  await run.completeStep(ranking.id, { top: 'P001' });
+  await run.completeStep(filtering.id);
+
+  const selection = await run.startStep({ stepType: 'selection' });
+  await run.completeStep(selection.id, undefined, 'No candidate left');
+
+  await run.complete({ selected: null });
+  return { run: run.run, filtering, ranking, selection };
+}
+
+function spanNamed(name: string): ReadableSpan {
+  const span = exporter.getFinishedSpans().find(s => s.name === name);
+  if (!span) {
+    throw new Error(`No span named '${name}'; spans: ${exporter.getFinishedSpans().map(s => s.name).join(', ')}`);
+  }
+  return span;
+}
+
+describe('OTelBridge', () => {
+  beforeAll(() => {
+    context.setGlobalContextManager(new AsyncHooksContextManager().enable());
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  beforeEach(() => {
+    const echo = async (...args: any[]) => args[args.length - 1];
+    for (const method of ['createRun', 'updateRun', 'createStep', 'updateStep', 'createCandidates', 'createFilter'] as const) {
+      jest.spyOn(XRayClient.prototype, method).mockImplementation(echo as any);
+    }
+  });
+
+  afterEach(() => {
+    exporter.reset();
+    jest.restoreAllMocks();
+  });
+
+  it('emits the run as a span and each step as a child span', async () => {
+    const { run, filtering, ranking, selection } = await runPipeline(newXRay({ tracer }));
+
+    expect(exporter.getFinishedSpans().map(s => s.name).sort()).toEqual([
+      'xray.run competitor-selection',
+      'xray.step filtering',
+      'xray.step ranking',
+      'xray.step selection'
+    ]);
+
+    const runSpan = spanNamed('xray.run competitor-selection');
+    const filteringSpan = spanNamed('xray.step filtering');
+    expect(filteringSpan.parentSpanId).toBe(runSpan.spanContext().spanId);
+    expect(spanNamed('xray.step ranking').parentSpanId).toBe(filteringSpan.spanContext().spanId);
+    expect(spanNamed('xray.step selection').parentSpanId).toBe(runSpan.spanContext().spanId);
+    expect(new Set(exporter.getFinishedSpans().map(s => s.spanContext().traceId)).size).toBe(1);
+
+    expect(runSpan.attributes).toEqual({
+      [Attr.RUN_ID]: run.id,
+      [Attr.PIPELINE_ID]: 'competitor-selection',
+      [Attr.PIPELINE_VERSION]: '2',
+      [Attr.RUN_STATUS]: 'completed'
+    });
+    expect(filteringSpan.attributes).toEqual({
+      [Attr.RUN_ID]: run.id,
+      [Attr.STEP_ID]: filtering.id,
+      [Attr.STEP_TYPE]: 'filtering',
+      [Attr.STEP_INDEX]: 0,
+      [Attr.STEP_STATUS]: 'completed',
+      [Attr.INPUT_COUNT]: 2,
+      [Attr.OUTPUT_COUNT]: 1,
+      [Attr.DURATION_MS]: filtering.durationMs
+    });
+    expect(spanNamed('xray.step ranking').attributes).toMatchObject({
+      [Attr.STEP_ID]: ranking.id,
+      [Attr.PARENT_STEP_ID]: filtering.id,
+      [Attr.STEP_INDEX]: 1
+    });
+    expect(spanNamed('xray.step selection').attributes).toMatchObject({
+      [Attr.STEP_ID]: selection.id,
+      [Attr.STEP_STATUS]: 'failed'
+    });
+  });
+
+  it('sets ERROR status with the message on failed steps and runs', async () => {
+    const xray = newXRay({ tracer });
+    await runPipeline(xray);
+
+    expect(spanNamed('xray.step selection').status).toEqual({ code: SpanStatusCode.ERROR, message: 'No candidate left' });
+    expect(spanNamed('xray.step filtering').status.code).toBe(SpanStatusCode.UNSET);
+
+    const run = await xray.startRun({ pipelineId: 'failing', input: {} });
+    await run.complete(undefined, 'Search timed out');
+    expect(spanNamed('xray.run failing').status).toEqual({ code: SpanStatusCode.ERROR, message: 'Search timed out' });
+  });
+
+  it('parents the run under the active span and records the trace in metadata.otel', async () => {
+    const request = tracer.startSpan('GET /competitors');
+    const { run } = await context.with(trace.setSpan(context.active(), request), () => runPipeline(newXRay({ tracer })));
+    request.end();
+
+    const runSpan = spanNamed('xray.run competitor-selection');
+    expect(runSpan.parentSpanId).toBe(request.spanContext().spanId);
+    expect(run.metadata.otel).toEqual({
+      traceId: request.spanContext().traceId,
+      spanId: runSpan.spanContext().spanId,
+      parentSpanId: request.spanContext().spanId
+    });
+  });
+
+  it('does not make step spans active', async () => {
+    const run = await newXRay({ tracer }).startRun({ pipelineId: 'competitor-selection', input: {} });
+    const step = await run.startStep({ stepType: 'search' });
+
+    expect(trace.getActiveSpan()).toBeUndefined();
+    await run.completeStep(step.id);
+    await run.complete();
+  });
+
+  it('leaves metadata.otel unset when no OTel SDK is registered', async () => {
+    const { run } = await runPipeline(newXRay(true));
+
+    expect(run.metadata.otel).toBeUndefined();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+});
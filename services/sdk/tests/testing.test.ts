@@ -0,0 +1,190 @@
+import { describe, expect, it } from '@jest/globals';
+import { MemoryTransport, XRayAssertionError, XRayRecorder } from '../src/testing';
+import { XRay } from '../src/xray';
+
+/**
+ * A small competitor-selection pipeline: search, then filtering with a
+ * ranking sub-step that calls a model
+ */
+async function competitorSelection(xray: XRay) {
+  const run = await xray.startRun({ pipelineId: 'competitor-selection', input: { asin: 'B0001' } });
+
+  const search = await run.startStep({ stepType: 'search', input: { keywords: ['laptop stand'] } });
+  await run.completeStep(search.id, { results: 3 });
+
+  const filtering = await run.startStep({ stepType: 'filtering' });
+  await run.filter(filtering.id, [
+    { candidateId: 'P001', data: { price: 29.99 }, score: 0.9 },
+    { candidateId: 'P002', data: { price: 12.99 }, score: 0.7 },
+    { candidateId: 'P003', data: { price: 89 }, score: 0.4 }
+  ], [{
+    filterType: 'price-range',
+    config: { min: 15, max: 50 },
+    predicate: (c, config) => c.data.price >= config.min && c.data.price <= config.max,
+    reason: (c, config) => `price ${c.data.price} outside ${config.min}-${config.max}`
+  }]);
+
+  const ranking = await run.startStep({ stepType: 'ranking', parentStepId: filtering.id });
+  await run.recordLLMCall(ranking.id, {
+    provider: 'openai',
+    model: 'gpt-4o',
+    messages: [{ role: 'user', content: 'Rank P001' }],
+    completion: 'P001',
+    latencyMs: 120
+  });
+  await run.completeStep(ranking.id, { top: 'P001' });
+  await run.completeStep(filtering.id);
+
+  await run.complete({ selected: 'P001' });
+}
+
+describe('MemoryTransport', () => {
+  it('keeps client IDs and treats repeated creates as no-ops', async () => {
+    const transport = new MemoryTransport();
+    const run = await transport.createRun({ id: 'run-a', pipelineId: 'p', startedAt: new Date(), metadata: {}, input: 1 });
+    const again = await transport.createRun({ id: 'run-a', pipelineId: 'other', startedAt: new Date(), metadata: {}, input: 2 });
+
+    expect(run.id).toBe('run-a');
+    expect(again.pipelineId).toBe('p');
+    expect(transport.getRuns()).toHaveLength(1);
+  });
+
+  it('rejects writes to unknown runs and steps', async () => {
+    const transport = new MemoryTransport();
+
+    await expect(transport.createStep({ runId: 'missing', stepType: 's', stepIndex: 0, startedAt: new Date(), metadata: {} } as any))
+      .rejects.toThrow('Run with id missing not found');
+    await expect(transport.updateRun('missing', { status: 'completed' })).rejects.toThrow('not found');
+    await expect(transport.createCandidates('missing', [{ candidateId: 'A', status: 'accepted', data: {}, metadata: {} }]))
+      .rejects.toThrow('Step with id missing not found');
+  });
+
+  it('returns copies, so recorded state cannot be changed from outside', async () => {
+    const transport = new MemoryTransport();
+    const run = await transport.createRun({ pipelineId: 'p', startedAt: new Date(), metadata: { a: 1 }, input: {} });
+    run.metadata.a = 2;
+
+    expect(transport.getRun(run.id)!.metadata.a).toBe(1);
+    expect(transport.getRun(run.id)!.startedAt.getTime()).toBe(run.startedAt.getTime());
+  });
+
+  it('applies event batches like the API', async () => {
+    const transport = new MemoryTransport();
+    const results = await transport.sendEvents([
+      { type: 'createRun', data: { id: 'r1', pipelineId: 'p', startedAt: new Date(), metadata: {}, input: {} } },
+      { type: 'createStep', data: { id: 's1', runId: 'r1', stepType: 'search', stepIndex: 0, startedAt: new Date(), metadata: {} } },
+      { type: 'createStep', data: { id: 's2', runId: 'unknown', stepType: 'search', stepIndex: 1, startedAt: new Date(), metadata: {} } }
+    ] as any);
+
+    expect(results.map(r => r.status)).toEqual([201, 201, 400]);
+    expect(transport.getRun('r1')!.steps.map(s => s.id)).toEqual(['s1']);
+  });
+});
+
+describe('XRayRecorder', () => {
+  it('records runs with their steps, candidates, filters and LLM calls', async () => {
+    const recorder = new XRayRecorder();
+    await competitorSelection(recorder.xray);
+
+    const run = recorder.run();
+    expect(recorder.runs).toHaveLength(1);
+    expect(run.steps.map(s => s.stepType)).toEqual(['search', 'filtering', 'ranking']);
+    expect(run.steps[1].candidates).toHaveLength(3);
+    expect(run.steps[1].filters).toHaveLength(1);
+    expect(run.steps[2].llmCalls[0].model).toBe('gpt-4o');
+    expect(run.steps[2].parentStepId).toBe(run.steps[1].id);
+  });
+
+  it('passes assertions that match what was recorded', async () => {
+    const recorder = new XRayRecorder();
+    await competitorSelection(recorder.xray);
+
+    recorder.expectRun().toHaveStatus('completed').toHaveStepTypes(['search', 'filtering', 'ranking']);
+    recorder.expectStep('filtering')
+      .toHaveStatus('completed')
+      .toHaveAccepted('P001')
+      .toHaveRejected('P002', /price 12\.99/)
+      .toHaveRejected('P003', 'outside 15-50')
+      .toHaveFilter('price-range', { min: 15, max: 50 })
+      .toHaveCounts({ input: 3, output: 1 });
+    recorder.expectStep('ranking').toHaveLLMCall('gpt-4o');
+  });
+
+  it('throws XRayAssertionError describing what was recorded', async () => {
+    const recorder = new XRayRecorder();
+    await competitorSelection(recorder.xray);
+    const filtering = recorder.expectStep('filtering');
+
+    const failures: [() => unknown, string][] = [
+      [() => recorder.expectRun().toHaveStatus('failed'), 'to be failed, but it is completed'],
+      [() => recorder.expectRun().toHaveStepTypes(['search']), 'but it has [search, filtering, ranking]'],
+      [() => recorder.expectStep('dedup'), "its steps are: 'search', 'filtering', 'ranking'"],
+      [() => recorder.expectStep('search', { occurrence: 1 }), "to have 2 steps of type 'search'"],
+      [() => filtering.toHaveAccepted('P002'), "to have accepted P002, but it was rejected (reason: 'price 12.99 outside 15-50')"],
+      [() => filtering.toHaveRejected('P001'), 'to have rejected P001, but it was accepted'],
+      [() => filtering.toHaveRejected('P002', /brand/), "but the reason was 'price 12.99 outside 15-50'"],
+      [() => filtering.toHaveRejected('P999'), 'it recorded 3 candidates (P001, P002, P003)'],
+      [() => filtering.toHaveFilter('brand'), "its filters are: 'price-range'"],
+      [() => filtering.toHaveFilter('price-range', { min: 10 }), 'but found {"min":15,"max":50}'],
+      [() => filtering.toHaveCounts({ output: 2 }), 'but it has {"input":3,"output":1}'],
+      [() => recorder.expectStep('search').toHaveLLMCall(), 'it called: nothing'],
+      [() => recorder.run('missing'), 'No run missing was recorded']
+    ];
+
+    for (const [assertion, message] of failures) {
+      expect(assertion).toThrow(XRayAssertionError);
+      expect(assertion).toThrow(message);
+    }
+  });
+
+  it('forgets recorded runs on reset', async () => {
+    const recorder = new XRayRecorder();
+    await competitorSelection(recorder.xray);
+    recorder.reset();
+
+    expect(recorder.runs).toEqual([]);
+    expect(() => recorder.run()).toThrow('No run was recorded');
+  });
+});
+
+describe('XRayRecorder.snapshot', () => {
+  it('labels IDs in recording order wherever they are referenced', async () => {
+    const recorder = new XRayRecorder({ samplingSeed: 1 });
+    await competitorSelection(recorder.xray);
+    const snapshot = recorder.snapshot();
+
+    expect(snapshot.id).toBe('run-1');
+    expect(snapshot.steps.map((s: any) => s.id)).toEqual(['step-1', 'step-2', 'step-3']);
+    expect(snapshot.steps.map((s: any) => s.runId)).toEqual(['run-1', 'run-1', 'run-1']);
+    expect(snapshot.steps[2].parentStepId).toBe('step-2');
+    expect(snapshot.steps[1].filters[0]).toMatchObject({ id: 'filter-1', stepId: 'step-2' });
+    expect(snapshot.steps[1].candidates.map((c: any) => [c.id, c.filterId])).toEqual([
+      ['candidate-1', undefined],
+      ['candidate-2', 'filter-1'],
+      ['candidate-3', 'filter-1']
+    ]);
+    expect(snapshot.steps[2].llmCalls[0].id).toBe('llm-call-1');
+    expect(snapshot.startedAt).toBe('[date]');
+    expect(snapshot.steps[0].durationMs).toBe('[duration]');
+  });
+
+  it('is identical for repeated runs of the same pipeline', async () => {
+    const first = new XRayRecorder({ samplingSeed: 1 });
+    const second = new XRayRecorder({ samplingSeed: 1 });
+    await competitorSelection(first.xray);
+    await competitorSelection(second.xray);
+
+    expect(first.run().id).not.toBe(second.run().id);
+    expect(second.snapshot()).toEqual(first.snapshot());
+    expect(first.snapshot()).toMatchSnapshot();
+  });
+
+  it('labels each run separately', async () => {
+    const recorder = new XRayRecorder({ samplingSeed: 1 });
+    await competitorSelection(recorder.xray);
+    const firstRunId = recorder.run().id;
+    await competitorSelection(recorder.xray);
+
+    expect(recorder.snapshot()).toEqual(recorder.snapshot(firstRunId));
+  });
+});